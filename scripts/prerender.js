@@ -0,0 +1,92 @@
+const fs = require('fs');
+const path = require('path');
+
+process.env.NODE_ENV = process.env.NODE_ENV || 'production';
+
+// Load the app's own TypeScript components so the static pages are rendered by
+// the same code the browser hydrates. Stylesheets are bundled by webpack instead.
+require('@babel/register')({
+  babelrc: false,
+  configFile: false,
+  extensions: ['.ts', '.tsx', '.js', '.jsx'],
+  only: [path.join(__dirname, '..', 'src')],
+  presets: [[require.resolve('babel-preset-react-app'), { runtime: 'automatic', useESModules: false }]],
+});
+require.extensions['.css'] = () => {};
+
+// Content is validated as it loads; report problems without a stack trace.
+try {
+  require('../src/portfolio/content');
+} catch (error) {
+  if (error.name !== 'ContentError') {
+    throw error;
+  }
+
+  console.error(error.message);
+  process.exit(1);
+}
+
+const { headTags, renderHeadTags } = require('../src/head');
+const { prerenderPages } = require('../src/prerender');
+const {
+  atomFeed,
+  jsonFeed,
+  llmsTxt,
+  robotsTxt,
+  sitemapXml,
+} = require('../src/siteFiles');
+
+const buildDirectory = path.join(__dirname, '..', 'build');
+const buildIndex = path.join(buildDirectory, 'index.html');
+
+const template = fs.readFileSync(buildIndex, 'utf8');
+
+if (!template.includes('<div id="root"></div>')) {
+  throw new Error('Could not find the empty React root in build/index.html.');
+}
+
+// Route-specific tags come from src/routes.ts. A copy left in public/index.html
+// would either duplicate or silently contradict them.
+const routeSpecificHeadTag = /<title|name="(description|robots|theme-color|twitter:[^"]+)"|rel="canonical"|property="og:(?!site_name)|application\/ld\+json/;
+const unmanagedTag = template.match(routeSpecificHeadTag);
+
+if (unmanagedTag) {
+  throw new Error(`public/index.html declares route-specific head tags (${unmanagedTag[0]}); set them in src/routes.ts instead.`);
+}
+
+const noscriptMarker = /<noscript>.*?<\/noscript>/;
+
+// Replacement callbacks keep `$` sequences in page content from being read as
+// String.prototype.replace patterns.
+const injectPage = ({ pathname, route, head, html }) => template
+  .replace('</head>', () => `${renderHeadTags(headTags(head))}</head>`)
+  .replace(noscriptMarker, (noscript) => (route.noscript ? `<noscript>${route.noscript}</noscript>` : noscript))
+  .replace('<body>', route.background ? `<body style="background:${route.background}">` : '<body>')
+  .replace(
+    '<div id="root"></div>',
+    () => `<div id="root" data-prerendered-location="${pathname}">${html}</div>`,
+  );
+
+const outputPath = ({ pathname, route }) => (route.id === 'not-found'
+  ? path.join(buildDirectory, '404.html')
+  : path.join(buildDirectory, pathname, 'index.html'));
+
+prerenderPages().forEach((page) => {
+  const file = outputPath(page);
+
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, injectPage(page));
+});
+
+// Generated from the same routes and content, so they can't drift from the pages.
+const siteFiles = {
+  'sitemap.xml': sitemapXml(),
+  'robots.txt': robotsTxt(),
+  'llms.txt': llmsTxt(),
+  'feed.xml': atomFeed(),
+  'feed.json': jsonFeed(),
+};
+
+Object.entries(siteFiles).forEach(([name, contents]) => {
+  fs.writeFileSync(path.join(buildDirectory, name), contents);
+});
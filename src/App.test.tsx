@@ -1,11 +1,25 @@
 import React from 'react';
-import { act, fireEvent, render, screen, within } from '@testing-library/react';
+import {
+  act,
+  fireEvent,
+  queryHelpers,
+  render,
+  screen,
+  waitFor,
+  within,
+} from '@testing-library/react';
 import App from './App';
+import { DEFAULT_GATE_BALLS_SETTINGS } from './gateBallsSettings';
+import { encodeSession } from './gateBallsSession';
 
 beforeEach(() => {
   window.history.pushState({}, '', '/');
+  window.localStorage.clear();
 });
 
+// The route's tags in document.head, by the key each is written with.
+const headTag = (key: string) => queryHelpers.queryByAttribute('data-route-head', document.head, key);
+
 test('renders the portfolio homepage', () => {
   render(<App />);
 
@@ -36,6 +50,10 @@ test('renders the portfolio homepage', () => {
     'href',
     '/door/'
   );
+  expect(screen.getByRole('link', { name: 'Gate Balls' })).toHaveAttribute(
+    'href',
+    '/gate-balls/'
+  );
 });
 
 test('renders Endless Door as a full-page experience', () => {
@@ -47,8 +65,15 @@ test('renders Endless Door as a full-page experience', () => {
   expect(container.querySelectorAll('filter')).toHaveLength(0);
   expect(container.querySelectorAll('feTurbulence')).toHaveLength(0);
   expect(container.querySelectorAll('feDisplacementMap')).toHaveLength(0);
-  const door = screen.getByRole('button', { name: /click or drag left to open/i });
+  const door = screen.getByRole('slider', { name: 'Endless Door' });
 
+  expect(door).toHaveAccessibleDescription(/click or drag left to open/i);
+  expect(door).toHaveAttribute(
+    'aria-valuetext',
+    '0 doors opened; left arrow opens, right arrow closes'
+  );
+  // jsdom has no canvas, so the door falls back to the CSS renderer.
+  expect(door).toHaveAttribute('data-renderer', 'css');
   fireEvent.keyDown(door, { key: 'ArrowLeft' });
   expect(door).toHaveAttribute('data-transition-mode', 'opening');
 });
@@ -104,7 +129,7 @@ test('finishes a door animation without leaving background frame work running',
   act(() => frames.shift()?.(0));
   expect(frames).toHaveLength(1);
   act(() => frames.shift()?.(160));
-  expect((leaf as HTMLElement).style.transform).toContain('rotateY(-11.25deg)');
+  expect((leaf as HTMLElement).style.transform).toContain('rotateY(-118.862deg)');
   expect(frames).toHaveLength(1);
   act(() => frames.shift()?.(640));
 
@@ -121,7 +146,7 @@ test('finishes a door animation without leaving background frame work running',
   expect(frames).toHaveLength(1);
   act(() => frames.shift()?.(1000));
   act(() => frames.shift()?.(1160));
-  expect((leaf as HTMLElement).style.transform).toContain('rotateY(-168.75deg)');
+  expect((leaf as HTMLElement).style.transform).toContain('rotateY(-61.138deg)');
   act(() => frames.shift()?.(1640));
 
   expect(door).toHaveAttribute('data-transition-mode', 'idle');
@@ -131,6 +156,371 @@ test('finishes a door animation without leaving background frame work running',
   requestAnimationFrame.mockRestore();
 });
 
+test('turns Endless Door with a sideways scroll and taps as it latches', () => {
+  jest.useFakeTimers();
+  const frames: FrameRequestCallback[] = [];
+  const requestAnimationFrame = jest
+    .spyOn(window, 'requestAnimationFrame')
+    .mockImplementation((callback) => {
+      frames.push(callback);
+      return frames.length;
+    });
+  const vibrate = jest.fn(() => true);
+  Object.defineProperty(window.navigator, 'vibrate', { configurable: true, value: vibrate });
+  window.history.pushState({}, '', '/door/');
+  render(<App />);
+
+  const door = screen.getByTestId('door-stage');
+  const leaf = screen.getByTestId('door-leaf');
+  fireEvent.wheel(door, { deltaX: 500 });
+
+  expect((leaf as HTMLElement).style.transform).toContain('rotateY(-120deg)');
+  expect(door).toHaveClass('is-dragging');
+
+  act(() => {
+    jest.advanceTimersByTime(140);
+  });
+  for (let now = 0; frames.length > 0 && now < 2000; now += 16) {
+    act(() => frames.shift()?.(now));
+  }
+
+  expect(door).toHaveAttribute('data-opened-count', '1');
+  expect(vibrate).toHaveBeenCalledWith(14);
+
+  // Haptics don't follow the sound, and have a switch of their own.
+  vibrate.mockClear();
+  fireEvent.click(screen.getByRole('button', { name: 'Sound' }));
+  fireEvent.keyDown(door, { key: 'ArrowLeft' });
+  for (let now = 2000; frames.length > 0 && now < 4000; now += 16) {
+    act(() => frames.shift()?.(now));
+  }
+  expect(vibrate).toHaveBeenCalledTimes(1);
+
+  fireEvent.click(screen.getByRole('button', { name: 'Haptics' }));
+  expect(window.localStorage.getItem('endless-door:haptics')).toBe('false');
+  fireEvent.keyDown(door, { key: 'ArrowLeft' });
+  for (let now = 4000; frames.length > 0 && now < 6000; now += 16) {
+    act(() => frames.shift()?.(now));
+  }
+  expect(door).toHaveAttribute('data-opened-count', '3');
+  expect(vibrate).toHaveBeenCalledTimes(1);
+
+  delete (window.navigator as Partial<Navigator>).vibrate;
+  requestAnimationFrame.mockRestore();
+  jest.useRealTimers();
+});
+
+test('opens straight to the door number in a shared link', () => {
+  window.history.pushState({}, '', '/door/?n=42');
+  render(<App />);
+
+  expect(screen.getByTestId('door-stage')).toHaveAttribute('data-opened-count', '42');
+  expect(screen.getByTestId('door-open-leaf')).toBeInTheDocument();
+  expect(screen.getByTestId('door-counter')).toHaveTextContent('42 doors opened');
+  // The same doors every time: 42 lies open and 43 waits in the doorway.
+  expect(within(screen.getByTestId('door-open-leaf')).getByTestId('door-body'))
+    .toHaveAttribute('data-door', '42');
+  expect(within(screen.getByTestId('door-leaf')).getByTestId('door-body'))
+    .toHaveAttribute('data-door', '43');
+});
+
+test('remembers opened doors across visits and keeps the URL shareable', async () => {
+  const frames: FrameRequestCallback[] = [];
+  const requestAnimationFrame = jest
+    .spyOn(window, 'requestAnimationFrame')
+    .mockImplementation((callback) => {
+      frames.push(callback);
+      return frames.length;
+    });
+  window.history.pushState({}, '', '/door/');
+  const { unmount } = render(<App />);
+
+  expect(screen.queryByTestId('door-counter')).not.toBeInTheDocument();
+  fireEvent.keyDown(screen.getByTestId('door-stage'), { key: 'ArrowLeft' });
+  act(() => frames.shift()?.(0));
+  act(() => frames.shift()?.(640));
+
+  expect(window.location.pathname).toBe('/door/');
+  await waitFor(() => expect(window.location.search).toBe('?n=1'));
+  expect(screen.getByTestId('door-counter')).toHaveTextContent('1 door opened');
+  expect(window.localStorage.getItem('endless-door:furthest-count')).toBe('1');
+  unmount();
+  requestAnimationFrame.mockRestore();
+
+  window.history.pushState({}, '', '/door/');
+  render(<App />);
+
+  expect(screen.getByTestId('door-stage')).toHaveAttribute('data-opened-count', '1');
+});
+
+test('chains doors for repeated presses and a held key', () => {
+  const frames: FrameRequestCallback[] = [];
+  const requestAnimationFrame = jest
+    .spyOn(window, 'requestAnimationFrame')
+    .mockImplementation((callback) => {
+      frames.push(callback);
+      return frames.length;
+    });
+  window.history.pushState({}, '', '/door/');
+  render(<App />);
+  const door = screen.getByTestId('door-stage');
+  let now = 0;
+  let mostLeavesInFlight = 0;
+  const runFrame = () => {
+    frames.shift()?.(now);
+    now += 16;
+  };
+  const runFrames = () => {
+    for (let frame = 0; frames.length > 0 && frame < 600; frame += 1) {
+      act(runFrame);
+      mostLeavesInFlight = Math.max(
+        mostLeavesInFlight,
+        queryHelpers.queryAllByAttribute('style', door, /rotateY/).length
+      );
+    }
+  };
+
+  fireEvent.keyDown(door, { key: 'ArrowLeft' });
+  fireEvent.keyDown(door, { key: 'ArrowLeft' });
+  fireEvent.keyDown(door, { key: 'ArrowLeft' });
+  runFrames();
+
+  expect(door).toHaveAttribute('data-opened-count', '3');
+  expect(door).toHaveAttribute('data-transition-mode', 'idle');
+  expect(mostLeavesInFlight).toBeGreaterThan(1);
+  expect(within(screen.getByTestId('door-open-leaf')).getByTestId('door-body'))
+    .toHaveAttribute('data-door', '3');
+  expect(within(screen.getByTestId('door-leaf')).getByTestId('door-body'))
+    .toHaveAttribute('data-door', '4');
+
+  fireEvent.keyDown(door, { key: 'Backspace' });
+  for (let press = 0; press < 5; press += 1) {
+    fireEvent.keyDown(door, { key: 'Backspace', repeat: true });
+  }
+  runFrames();
+
+  expect(door).toHaveAttribute('data-opened-count', '1');
+  expect(frames).toHaveLength(0);
+  requestAnimationFrame.mockRestore();
+});
+
+test('reveals and records what is behind a milestone door', () => {
+  const frames: FrameRequestCallback[] = [];
+  const requestAnimationFrame = jest
+    .spyOn(window, 'requestAnimationFrame')
+    .mockImplementation((callback) => {
+      frames.push(callback);
+      return frames.length;
+    });
+  window.history.pushState({}, '', '/door/?n=9');
+  render(<App />);
+  const door = screen.getByTestId('door-stage');
+
+  expect(screen.queryByTestId('door-reveal')).not.toBeInTheDocument();
+  expect(screen.queryByText(/found \d+ of/i)).not.toBeInTheDocument();
+
+  fireEvent.keyDown(door, { key: 'ArrowLeft' });
+  act(() => frames.shift()?.(0));
+  act(() => frames.shift()?.(640));
+
+  expect(screen.getByTestId('door-reveal')).toHaveTextContent('Still doors. Keep going.');
+  expect(screen.getByRole('status')).toHaveTextContent('Door 10 opened. Behind it: Still doors. Keep going.');
+  expect(screen.getByText('Found 1 of 5')).toBeInTheDocument();
+  expect(window.localStorage.getItem('endless-door:found-milestones')).toBe('[10]');
+
+  fireEvent.keyDown(door, { key: 'ArrowLeft' });
+
+  expect(screen.queryByTestId('door-reveal')).not.toBeInTheDocument();
+  expect(screen.getByText('Found 1 of 5')).toBeInTheDocument();
+  requestAnimationFrame.mockRestore();
+});
+
+test('only records a milestone when its door is opened onto', () => {
+  window.history.pushState({}, '', '/door/?n=10');
+  render(<App />);
+
+  expect(screen.getByTestId('door-reveal')).toHaveTextContent('Still doors. Keep going.');
+
+  ['1', '0', '0'].forEach((key) => fireEvent.keyDown(screen.getByTestId('door-stage'), { key }));
+  fireEvent.keyDown(screen.getByTestId('door-stage'), { key: 'Enter' });
+
+  expect(screen.getByTestId('door-reveal')).toBeInTheDocument();
+  expect(screen.queryByText(/found \d+ of/i)).not.toBeInTheDocument();
+  expect(window.localStorage.getItem('endless-door:found-milestones')).toBeNull();
+});
+
+test('announces each door as it opens and closes', () => {
+  const frames: FrameRequestCallback[] = [];
+  const requestAnimationFrame = jest
+    .spyOn(window, 'requestAnimationFrame')
+    .mockImplementation((callback) => {
+      frames.push(callback);
+      return frames.length;
+    });
+  window.history.pushState({}, '', '/door/?n=11');
+  render(<App />);
+  const door = screen.getByRole('slider', { name: 'Endless Door' });
+
+  expect(screen.getByRole('status')).toBeEmptyDOMElement();
+
+  fireEvent.keyDown(door, { key: 'ArrowUp' });
+  act(() => frames.shift()?.(0));
+  act(() => frames.shift()?.(640));
+
+  expect(screen.getByRole('status')).toHaveTextContent('Door 12 opened.');
+  expect(door).toHaveAttribute('aria-valuenow', '12');
+  expect(door).toHaveAttribute(
+    'aria-valuetext',
+    '12 doors opened; left arrow opens, right arrow closes'
+  );
+
+  act(() => frames.shift()?.(656));
+  fireEvent.keyDown(door, { key: 'ArrowDown' });
+  act(() => frames.shift()?.(1000));
+  act(() => frames.shift()?.(1640));
+
+  expect(screen.getByRole('status')).toHaveTextContent('Door 12 closed.');
+  expect(door).toHaveAttribute('aria-valuenow', '11');
+  requestAnimationFrame.mockRestore();
+});
+
+test('shows the keyboard controls with ? and closes them with Escape', () => {
+  window.history.pushState({}, '', '/door/?n=3');
+  render(<App />);
+  const door = screen.getByRole('slider', { name: 'Endless Door' });
+
+  expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+
+  fireEvent.keyDown(door, { key: '?' });
+  const help = screen.getByRole('dialog', { name: 'Keyboard' });
+  expect(within(help).getByText('Go to that door')).toBeInTheDocument();
+  // The door swings left, so left opens it.
+  expect(within(help).getByText('Enter, Space, ← or ↑')).toBeInTheDocument();
+  expect(within(help).getByText('Backspace, Esc, → or ↓')).toBeInTheDocument();
+  expect(screen.getByRole('button', { name: 'Keys' })).toHaveAttribute('aria-expanded', 'true');
+  expect(help).toHaveFocus();
+
+  // Escape closes the help before it closes any doors.
+  fireEvent.keyDown(help, { key: 'Escape' });
+  expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  expect(door).toHaveFocus();
+  fireEvent.keyDown(door, { key: '?' });
+  fireEvent.keyDown(door, { key: 'Escape' });
+  expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  expect(door).toHaveAttribute('data-transition-mode', 'idle');
+
+  fireEvent.click(screen.getByRole('button', { name: 'Keys' }));
+  expect(screen.getByRole('dialog', { name: 'Keyboard' })).toHaveFocus();
+  fireEvent.click(screen.getByRole('button', { name: 'Close' }));
+  expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  expect(door).toHaveFocus();
+});
+
+test('jumps between doors with Home, End, the page keys and typed numbers', async () => {
+  window.localStorage.setItem('endless-door:furthest-count', '40');
+  window.history.pushState({}, '', '/door/?n=30');
+  render(<App />);
+  const door = screen.getByRole('slider', { name: 'Endless Door' });
+  const status = screen.getByRole('status');
+
+  fireEvent.keyDown(door, { key: 'PageUp' });
+  expect(door).toHaveAttribute('aria-valuenow', '40');
+  expect(status).toHaveTextContent('Jumped to door 40.');
+
+  fireEvent.keyDown(door, { key: 'Home' });
+  expect(door).toHaveAttribute('aria-valuenow', '0');
+  expect(status).toHaveTextContent('Back to the first door.');
+
+  fireEvent.keyDown(door, { key: 'End' });
+  expect(door).toHaveAttribute('aria-valuenow', '40');
+
+  fireEvent.keyDown(door, { key: 'PageDown' });
+  expect(door).toHaveAttribute('aria-valuenow', '30');
+
+  ['1', '0', '7'].forEach((key) => fireEvent.keyDown(door, { key }));
+  expect(screen.getByTestId('door-typed')).toHaveTextContent('Go to door 107');
+  fireEvent.keyDown(door, { key: 'Backspace' });
+  fireEvent.keyDown(door, { key: '0' });
+  fireEvent.keyDown(door, { key: 'Enter' });
+
+  expect(door).toHaveAttribute('aria-valuenow', '100');
+  expect(door).toHaveAttribute('data-transition-mode', 'idle');
+  expect(status).toHaveTextContent('Jumped to door 100. Behind it: A key.');
+  expect(screen.queryByTestId('door-typed')).not.toBeInTheDocument();
+  await waitFor(() => expect(window.location.search).toBe('?n=100'));
+  // Jumps aren't doors opened, so End still goes where the doors did.
+  expect(window.localStorage.getItem('endless-door:furthest-count')).toBe('40');
+});
+
+test('keeps the door turning when the browser refuses to update the address', async () => {
+  const frames: FrameRequestCallback[] = [];
+  const requestAnimationFrame = jest
+    .spyOn(window, 'requestAnimationFrame')
+    .mockImplementation((callback) => {
+      frames.push(callback);
+      return frames.length;
+    });
+  window.history.pushState({}, '', '/door/');
+  render(<App />);
+  // As Safari does once a page replaces its history entry too often
+  const replaceState = jest.spyOn(window.history, 'replaceState').mockImplementation(() => {
+    throw new DOMException('Too many calls', 'SecurityError');
+  });
+
+  const stage = screen.getByTestId('door-stage');
+  [0, 1, 2].forEach(() => fireEvent.keyDown(stage, { key: 'ArrowLeft' }));
+  act(() => frames.shift()?.(0));
+  act(() => frames.shift()?.(640));
+  expect(frames).not.toHaveLength(0);
+
+  // The address follows once, after the doors stop changing.
+  await waitFor(() => expect(replaceState).toHaveBeenCalledTimes(1));
+  expect(window.location.search).toBe('');
+  replaceState.mockRestore();
+  requestAnimationFrame.mockRestore();
+});
+
+test('remembers muting the door sounds', () => {
+  window.history.pushState({}, '', '/door/');
+  const { unmount } = render(<App />);
+  const toggle = screen.getByRole('button', { name: 'Sound' });
+
+  expect(toggle).toHaveAttribute('aria-pressed', 'true');
+  fireEvent.click(toggle);
+  expect(toggle).toHaveAttribute('aria-pressed', 'false');
+  unmount();
+
+  render(<App />);
+
+  expect(screen.getByRole('button', { name: 'Sound' })).toHaveAttribute('aria-pressed', 'false');
+});
+
+test('records a run of doors and offers it for saving', () => {
+  const requestAnimationFrame = jest.spyOn(window, 'requestAnimationFrame').mockImplementation(() => 1);
+  window.history.pushState({}, '', '/door/');
+  render(<App />);
+
+  const door = screen.getByTestId('door-stage');
+  const record = screen.getByRole('button', { name: 'Record' });
+  fireEvent.click(record);
+
+  expect(record).toHaveTextContent('Stop');
+  expect(screen.getByRole('status')).toHaveTextContent(/recording for up to 20 seconds/i);
+
+  fireEvent.click(record);
+  expect(screen.queryByRole('group', { name: 'Save the recording' })).not.toBeInTheDocument();
+
+  fireEvent.click(record);
+  fireEvent.keyDown(door, { key: 'ArrowUp' });
+  fireEvent.click(record);
+
+  const save = screen.getByRole('group', { name: 'Save the recording' });
+  expect(within(save).getByRole('button', { name: 'Save GIF' })).toBeEnabled();
+  fireEvent.click(within(save).getByRole('button', { name: 'Discard' }));
+  expect(save).not.toBeInTheDocument();
+  requestAnimationFrame.mockRestore();
+});
+
 test('keeps the old door query as an alias to Endless Door', () => {
   window.history.pushState({}, '', '/?door');
   render(<App />);
@@ -156,3 +546,254 @@ test('renders the Now page as a concise prose update', () => {
   expect(forecastBench.querySelector('strong')).not.toBeNull();
   expect(screen.queryByText('This site')).not.toBeInTheDocument();
 });
+
+test('lists every Now update in the archive', () => {
+  const scrollTo = jest.spyOn(window, 'scrollTo').mockImplementation(() => {});
+  window.history.pushState({}, '', '/now/');
+  render(<App />);
+
+  fireEvent.click(screen.getByRole('link', { name: 'Earlier updates' }));
+
+  expect(window.location.pathname).toBe('/now/archive/');
+  expect(screen.getByRole('heading', { name: 'Earlier updates' })).toBeInTheDocument();
+  const update = screen.getByRole('link', { name: 'July 13, 2026' });
+  expect(update).toHaveAttribute('href', '/now/2026-07-13/');
+
+  fireEvent.click(update);
+
+  expect(window.location.pathname).toBe('/now/2026-07-13/');
+  expect(screen.getByRole('link', { name: 'Teleskope' })).toBeInTheDocument();
+  expect(document.title).toBe('Now, July 2026 — Ansh Sancheti');
+  expect(headTag('canonical')).toHaveAttribute(
+    'href',
+    'https://anshsancheti.github.io/now/'
+  );
+
+  scrollTo.mockRestore();
+});
+
+test('treats Now dates without a snapshot as not found', () => {
+  window.history.pushState({}, '', '/now/2020-01-01/');
+  render(<App />);
+
+  expect(
+    screen.getByRole('heading', { name: 'Nothing behind this door.' })
+  ).toBeInTheDocument();
+});
+
+test('renders a not-found page for unknown paths', () => {
+  window.history.pushState({}, '', '/nowhere/');
+  render(<App />);
+
+  expect(
+    screen.getByRole('heading', { name: 'Nothing behind this door.' })
+  ).toBeInTheDocument();
+  expect(screen.getByText('/nowhere/')).toBeInTheDocument();
+  expect(screen.queryByRole('heading', { name: 'Selected work' })).not.toBeInTheDocument();
+  expect(document.title).toBe('Not found — Ansh Sancheti');
+});
+
+test('renders a not-found page for paths with malformed escapes', () => {
+  window.history.pushState({}, '', '/work/%zz/');
+  render(<App />);
+
+  expect(
+    screen.getByRole('heading', { name: 'Nothing behind this door.' })
+  ).toBeInTheDocument();
+  expect(document.title).toBe('Not found — Ansh Sancheti');
+});
+
+test('navigates between routes without a full page load', () => {
+  const scrollTo = jest.spyOn(window, 'scrollTo').mockImplementation(() => {});
+  render(<App />);
+
+  fireEvent.click(within(screen.getByRole('navigation')).getByRole('link', { name: 'Now' }));
+
+  expect(window.location.pathname).toBe('/now/');
+  expect(screen.getByRole('link', { name: 'Teleskope' })).toBeInTheDocument();
+  expect(document.title).toBe('Now — Ansh Sancheti');
+  expect(scrollTo).toHaveBeenCalledWith(0, 0);
+
+  act(() => {
+    window.history.replaceState({}, '', '/');
+    window.dispatchEvent(new PopStateEvent('popstate'));
+  });
+
+  expect(screen.getByRole('heading', { name: 'Selected work' })).toBeInTheDocument();
+  scrollTo.mockRestore();
+});
+
+test('leaves links outside the route table to the browser', () => {
+  render(<App />);
+
+  const treeMap = screen.getByRole('link', { name: 'NYC Tree Foliage' });
+  expect(fireEvent.click(treeMap)).toBe(true);
+  expect(window.location.pathname).toBe('/');
+});
+
+test('keeps head metadata in step with the current route', () => {
+  window.history.pushState({}, '', '/objects/');
+  const { unmount } = render(<App />);
+
+  expect(document.title).toBe('Endless Door — Ansh Sancheti');
+  expect(headTag('canonical')).toHaveAttribute('href', 'https://anshsancheti.github.io/door/');
+  expect(headTag('theme-color')).toHaveAttribute('content', '#0a0a0a');
+  expect(headTag('og:url')).toHaveAttribute('content', 'https://anshsancheti.github.io/door/');
+  expect(
+    JSON.parse(headTag('json-ld')?.textContent ?? '{}')
+  ).toMatchObject({ '@type': 'CreativeWork', url: 'https://anshsancheti.github.io/door/' });
+
+  unmount();
+  window.history.pushState({}, '', '/missing/');
+  render(<App />);
+
+  expect(headTag('theme-color')).toHaveAttribute('content', '#f3efe4');
+  expect(headTag('robots')).toHaveAttribute('content', 'noindex');
+  expect(headTag('canonical')).toBeNull();
+  expect(headTag('json-ld')).toBeNull();
+  expect(queryHelpers.queryAllByAttribute('data-route-head', document.head, 'title')).toHaveLength(1);
+});
+
+test('renders a project write-up before linking out to the app', () => {
+  const scrollTo = jest.spyOn(window, 'scrollTo').mockImplementation(() => {});
+  render(<App />);
+
+  const notes = screen.getAllByRole('link', { name: 'Notes' });
+  expect(notes).toHaveLength(7);
+  fireEvent.click(notes[0]);
+
+  expect(window.location.pathname).toBe('/work/reddit-atlas/');
+  expect(screen.getByRole('heading', { level: 1, name: 'Reddit Atlas' })).toBeInTheDocument();
+  expect(screen.getByText('2026')).toBeInTheDocument();
+  expect(screen.getByText('data, map')).toBeInTheDocument();
+  expect(screen.getByRole('link', { name: 'Open Reddit Atlas' })).toHaveAttribute(
+    'href',
+    'https://reddit-atlas.fly.dev/'
+  );
+  expect(screen.getByText(/first load can take a few seconds/)).toBeInTheDocument();
+  expect(
+    JSON.parse(headTag('json-ld')?.textContent ?? '{}')
+  ).toMatchObject({
+    '@type': ['CreativeWork', 'SoftwareApplication'],
+    mainEntityOfPage: 'https://anshsancheti.github.io/work/reddit-atlas/',
+  });
+  scrollTo.mockRestore();
+});
+
+test('treats unknown project slugs as not found', () => {
+  window.history.pushState({}, '', '/work/not-a-project/');
+  render(<App />);
+
+  expect(
+    screen.getByRole('heading', { name: 'Nothing behind this door.' })
+  ).toBeInTheDocument();
+  expect(document.title).toBe('Not found — Ansh Sancheti');
+});
+
+test('filters selected work by tag and keeps the filter in the URL', () => {
+  const scrollTo = jest.spyOn(window, 'scrollTo').mockImplementation(() => {});
+  const { unmount } = render(<App />);
+
+  const tags = screen.getByRole('group', { name: 'Filter projects by tag' });
+  fireEvent.click(within(tags).getByRole('link', { name: 'game' }));
+
+  expect(window.location.search).toBe('?tag=game');
+  expect(within(tags).getByRole('link', { name: 'game' })).toHaveAttribute('aria-current', 'true');
+  expect(screen.getByText('Lot Shot')).toBeInTheDocument();
+  expect(screen.getByText('Crosswars')).toBeInTheDocument();
+  expect(screen.queryByText('Reddit Atlas')).not.toBeInTheDocument();
+  expect(screen.getByRole('heading', { name: '2025' })).toBeInTheDocument();
+  expect(scrollTo).not.toHaveBeenCalled();
+
+  unmount();
+  render(<App />);
+  expect(screen.queryByText('Reddit Atlas')).not.toBeInTheDocument();
+
+  fireEvent.click(within(screen.getByRole('group', { name: 'Filter projects by tag' })).getByRole('link', { name: 'All' }));
+  expect(window.location.search).toBe('');
+  expect(screen.getByText('Reddit Atlas')).toBeInTheDocument();
+  scrollTo.mockRestore();
+});
+
+test('renders Gate Balls with its settings read from and kept in the URL', async () => {
+  window.history.pushState({}, '', '/gate-balls/?gap=0.3&gravity=99999&split=abc');
+  render(<App />);
+
+  expect(screen.getByTestId('gate-balls')).toBeInTheDocument();
+  expect(document.title).toBe('Gate Balls — Ansh Sancheti');
+  const settings = screen.getByRole('form', { name: 'Simulation settings' });
+  expect(within(settings).getByRole('slider', { name: 'Gap' })).toHaveValue('0.3');
+  // Out-of-range and unreadable values fall back inside the controls' range.
+  expect(within(settings).getByRole('slider', { name: 'Gravity' })).toHaveValue('4000');
+  expect(within(settings).getByRole('slider', { name: 'Stop splitting at' })).toHaveValue('20');
+
+  fireEvent.change(within(settings).getByRole('slider', { name: 'Ball bounce' }), {
+    target: { value: '0.5' },
+  });
+  expect(within(settings).getByRole('slider', { name: 'Ball bounce' }))
+    .toHaveAttribute('aria-valuetext', '0.50');
+  // The address bar follows once the slider stops moving.
+  expect(window.location.search).toBe('?gap=0.3&gravity=99999&split=abc');
+  await waitFor(() => expect(new URLSearchParams(window.location.search).get('bounce')).toBe('0.5'));
+  expect(new URLSearchParams(window.location.search).get('gap')).toBe('0.3');
+
+  fireEvent.click(within(settings).getByRole('button', { name: 'Reset' }));
+  expect(window.location.pathname).toBe('/gate-balls/');
+  await waitFor(() => expect(window.location.search).toBe(''));
+  expect(within(settings).getByRole('slider', { name: 'Gap' })).toHaveValue('0.15');
+});
+
+test('offers the Gate Balls benchmark behind a flag that survives setting changes', async () => {
+  window.history.pushState({}, '', '/gate-balls/?bench');
+  render(<App />);
+
+  expect(screen.getByRole('button', { name: 'Run benchmark' })).toBeInTheDocument();
+  // A drag across the slider replaces the history entry once, not per value,
+  // as Safari refuses a page that does it too often.
+  const replaceState = jest.spyOn(window.history, 'replaceState');
+  for (let value = 1000; value <= 2000; value += 5) {
+    fireEvent.change(screen.getByRole('slider', { name: 'Ball cap' }), { target: { value: String(value) } });
+  }
+  await waitFor(() => expect(window.location.search).toBe('?bench&max=2000'));
+  expect(replaceState).toHaveBeenCalledTimes(1);
+  replaceState.mockRestore();
+});
+
+test('switches Gate Balls to a fixed timestep with session controls, and plays replays from the URL', async () => {
+  window.history.pushState({}, '', '/gate-balls/?gap=0.3');
+  render(<App />);
+
+  expect(screen.queryByRole('region', { name: 'Session' })).not.toBeInTheDocument();
+  fireEvent.click(screen.getByRole('checkbox', { name: 'Fixed timestep' }));
+  expect(window.location.search).toBe('?gap=0.3&fixed');
+  const session = screen.getByRole('region', { name: 'Session' });
+  expect(within(session).getByRole('button', { name: 'Save session' })).toBeInTheDocument();
+  expect(within(session).getByRole('button', { name: 'Start over' })).toBeInTheDocument();
+
+  fireEvent.change(within(session).getByLabelText('Load session'), {
+    target: { files: [new File(['{}'], 'notes.json', { type: 'application/json' })] },
+  });
+  expect(await within(session).findByText('notes.json isn’t a saved Gate Balls session.'))
+    .toBeInTheDocument();
+
+  const saved = encodeSession({
+    seed: 5,
+    width: 800,
+    height: 600,
+    settings: { ...DEFAULT_GATE_BALLS_SETTINGS, gravity: 900 },
+    steps: 120,
+    inputs: [{ step: 30, input: { type: 'touch' } }],
+  });
+  fireEvent.change(within(session).getByLabelText('Load session'), {
+    target: { files: [new File([saved], 'run.json', { type: 'application/json' })] },
+  });
+  expect(await within(session).findByText('Replaying run.json.')).toBeInTheDocument();
+  // A replay plays with the settings it was saved with.
+  expect(screen.getByRole('slider', { name: 'Gravity' })).toHaveValue('900');
+  expect(screen.getByRole('slider', { name: 'Gravity' })).toBeDisabled();
+  expect(new URLSearchParams(window.location.search).has('replay')).toBe(true);
+
+  fireEvent.click(within(session).getByRole('button', { name: 'Stop replay' }));
+  expect(screen.getByRole('slider', { name: 'Gravity' })).toBeEnabled();
+  expect(window.location.search).toBe('?gravity=900&fixed');
+});
@@ -1,17 +1,31 @@
-import React from 'react';
-import DoorPage from './DoorPage';
-import PortfolioPrototype from './portfolio/PortfolioPrototype';
-import NowPage from './portfolio/NowPage';
+import React, { useEffect, useMemo } from 'react';
+import { applyHeadTags, headTags } from './head';
+import { Router, RouterLocation, useRouter } from './router';
+import { isAppPath, matchRoute } from './routes';
 
-function App() {
-  const hasDoorQuery = new URLSearchParams(window.location.search).has('door');
-  const path = window.location.pathname.replace(/\/+$/, '');
-  const showDoor = hasDoorQuery || path === '/door' || path === '/objects';
-  const showNow = path === '/now';
+type AppProps = {
+  location?: RouterLocation;
+};
 
-  if (showDoor) return <DoorPage />;
-  if (showNow) return <NowPage />;
-  return <PortfolioPrototype />;
+function RouteView() {
+  const { location } = useRouter();
+  const { route, params } = useMemo(() => matchRoute(location), [location]);
+  const head = useMemo(() => route.head(params), [route, params]);
+
+  useEffect(() => {
+    applyHeadTags(document, headTags(head));
+  }, [head]);
+
+  const Page = route.component;
+  return <Page key={location.pathname.replace(/\/+$/, '')} params={params} />;
+}
+
+function App({ location }: AppProps) {
+  return (
+    <Router isAppPath={isAppPath} location={location}>
+      <RouteView />
+    </Router>
+  );
 }
 
 export default App;
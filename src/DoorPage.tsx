@@ -1,28 +1,40 @@
-import React, { useEffect } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
+import { openedCountFromSearch, searchWithOpenedCount } from './doorProgress';
 import EndlessDoor from './EndlessDoor';
+import { useReplaceSearch, useRouter } from './router';
 import './DoorPage.css';
 
 export default function DoorPage() {
-  useEffect(() => {
-    const themeColor = document.querySelector<HTMLMetaElement>('meta[name="theme-color"]');
-    const previousThemeColor = themeColor?.content;
-    const previousHtmlBackground = document.documentElement.style.background;
-    const previousBodyBackground = document.body.style.background;
+  const { location } = useRouter();
+  const replaceSearch = useReplaceSearch();
+  const [initialOpenedCount] = useState(() => openedCountFromSearch(location.search) ?? undefined);
+
+  // Keep the address bar pointing at the current door, so copying it shares
+  // the stack as it is. The path stays put to keep this page mounted. This
+  // runs inside the door's animation step, which a held key repeats quickly,
+  // so the address follows once the doors come to rest.
+  const handleOpenedCountChange = useCallback((count: number) => {
+    replaceSearch((search) => searchWithOpenedCount(search, count));
+  }, [replaceSearch]);
 
-    if (themeColor) themeColor.content = '#0a0a0a';
+  useEffect(() => {
     document.documentElement.style.background = '#0a0a0a';
     document.body.style.background = '#0a0a0a';
 
     return () => {
-      if (themeColor && previousThemeColor) themeColor.content = previousThemeColor;
-      document.documentElement.style.background = previousHtmlBackground;
-      document.body.style.background = previousBodyBackground;
+      // The prerendered /door/ page paints the body inline as well, so clear
+      // rather than restore when navigating on to a lighter page.
+      document.documentElement.style.removeProperty('background');
+      document.body.style.removeProperty('background');
     };
   }, []);
 
   return (
     <main className="door-page" aria-label="Endless Door">
-      <EndlessDoor />
+      <EndlessDoor
+        initialOpenedCount={initialOpenedCount}
+        onOpenedCountChange={handleOpenedCountChange}
+      />
     </main>
   );
 }
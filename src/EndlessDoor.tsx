@@ -1,34 +1,95 @@
 import React, { memo, useCallback, useEffect, useMemo, useRef, useState } from 'react';
-
-const OPEN_ANGLE = 180;
-const SETTLE_EPSILON = 0.6;
-const DRAG_DEGREES_PER_PIXEL = 0.38;
-const ANIMATION_DURATION_MS = 640;
-const MIN_ANIMATION_DURATION_MS = 180;
-
-type DoorMode = 'idle' | 'opening' | 'closing';
-
-type PointerSession = {
-  id: number;
-  startX: number;
-  startY: number;
-  startAngle: number;
-  moved: boolean;
-  mode: DoorMode | null;
+import { canvasDoorSupported, DoorRenderer, paintDoorCanvas, sceneFromLeaves } from './doorCanvas';
+import { hapticsSupported, loadHaptics, saveHaptics, vibrateLatch } from './doorHaptics';
+import { OPEN_ANGLE } from './doorPhysics';
+import {
+  loadFoundMilestones,
+  loadFurthestCount,
+  loadOpenedCount,
+  MAX_OPENED_COUNT,
+  saveFoundMilestones,
+  saveFurthestCount,
+  saveOpenedCount,
+} from './doorProgress';
+import {
+  DoorRecording,
+  exportGif,
+  ExportFormat,
+  exportWebm,
+  MAX_RECORDING_SECONDS,
+  webmSupported,
+} from './doorRecording';
+import { createDoorSound, DoorSound, loadMuted, saveMuted } from './doorSound';
+import { DoorDesign, doorDesign } from './doorVariations';
+import { downloadBlob } from './download';
+import { HingedLeafState, holdsPointer, LeafFlight, LeafInput, SettledLeaf } from './hingedLeaf';
+import { DoorMilestone, doorMilestones, findDoorMilestone } from './portfolio/content';
+import { Link } from './router';
+import { useHingedLeaf } from './useHingedLeaf';
+
+// The spring, drag and chaining defaults in `hingedLeaf` were tuned for this
+// door; only the count needs a ceiling.
+const LEAF_CONFIG = { maxCount: MAX_OPENED_COUNT };
+// How far Page Up and Page Down jump.
+const PAGE_DOORS = 10;
+// Digits typed to go to a door by number; a million has seven.
+const MAX_TYPED_DIGITS = 7;
+
+const KEYBOARD_HELP = [
+  ['Enter, Space, ← or ↑', 'Open the next door'],
+  ['Backspace, Esc, → or ↓', 'Close the last door opened'],
+  ['Page Up, Page Down', `Go ${PAGE_DOORS} doors on or back`],
+  ['Home', 'Back to the first door'],
+  ['End', 'The furthest door you have opened'],
+  ['A number, then Enter', 'Go to that door'],
+  ['?', 'Show or hide these keys'],
+];
+
+type EndlessDoorProps = {
+  // Doors already open on arrival, e.g. from a shared `?n=` link. Without it
+  // the count saved on this device is restored after mount.
+  initialOpenedCount?: number;
+  onOpenedCountChange?: (count: number) => void;
 };
 
 type DoorDepthProps = {
   side: 'hinge' | 'latch';
 };
 
+type DoorBodyProps = {
+  door: number;
+};
+
+type DoorDrawingProps = {
+  design: DoorDesign;
+};
+
+type DoorRevealProps = {
+  milestone: DoorMilestone;
+};
+
 function clamp(value: number, min: number, max: number) {
   return Math.max(min, Math.min(max, value));
 }
 
-function easeInOutCubic(progress: number) {
-  return progress < 0.5
-    ? 4 * progress * progress * progress
-    : 1 - Math.pow(-2 * progress + 2, 3) / 2;
+const pointerInput = (pointerType: string): LeafInput =>
+  pointerType === 'touch' || pointerType === 'pen' ? pointerType : 'mouse';
+
+// Wheel deltas come in pixels, lines or pages; the door turns by pixels.
+function wheelPixels(delta: number, deltaMode: number, pageWidth: number) {
+  if (deltaMode === 1) {
+    return delta * 16;
+  }
+
+  return deltaMode === 2 ? delta * pageWidth : delta;
+}
+
+const formatDoor = (door: number) => door.toLocaleString('en-US');
+
+// Adds whatever waits behind the door, so the reveal is heard as well as seen.
+function withMilestone(sentence: string, door: number) {
+  const milestone = findDoorMilestone(door);
+  return milestone ? `${sentence} Behind it: ${milestone.text}` : sentence;
 }
 
 const DoorDepth = memo(function DoorDepth({ side }: DoorDepthProps) {
@@ -50,57 +111,46 @@ const DoorDepth = memo(function DoorDepth({ side }: DoorDepthProps) {
   );
 });
 
-const DoorBody = memo(function DoorBody() {
+const DoorBody = memo(function DoorBody({ door }: DoorBodyProps) {
+  const design = useMemo(() => doorDesign(door), [door]);
+  const style = {
+    '--door-ink': design.ink,
+    '--door-faint': design.faint,
+    '--knob-x': `${(design.knobX * 100).toFixed(1)}%`,
+    '--knob-y': `${(design.knobY * 100).toFixed(1)}%`,
+  } as React.CSSProperties;
+
   return (
-    <>
+    <div
+      className="door-body"
+      data-door={door}
+      data-door-shape={design.shape}
+      data-testid="door-body"
+      style={style}
+    >
       <div className="door-face door-face-front">
-        <DoorDrawing />
+        <DoorDrawing design={design} />
       </div>
       <div className="door-face door-face-back">
-        <DoorDrawing />
+        <DoorDrawing design={design} />
       </div>
-      <DoorKnobAssembly />
+      <DoorKnobAssembly knob={design.knob} />
       <DoorDepth side="hinge" />
       <DoorDepth side="latch" />
-    </>
+    </div>
   );
 });
 
-function DoorKnobAssembly() {
+function DoorKnobAssembly({ knob }: Pick<DoorDesign, 'knob'>) {
   return (
-    <div aria-hidden="true" className="door-knob-assembly">
+    <div aria-hidden="true" className={`door-knob-assembly door-knob-${knob}`}>
       <span className="door-knob-sphere door-knob-sphere-front" />
       <span className="door-knob-sphere door-knob-sphere-back" />
     </div>
   );
 }
 
-const DoorDrawing = memo(function DoorDrawing() {
-  const panels = useMemo(
-    () => [
-      {
-        face: 'M58 78 L263 75 L258 154 L62 156 Z',
-        inner: 'M76 96 L244 94 L242 136 L78 138 Z',
-      },
-      {
-        face: 'M59 208 L262 205 L258 292 L61 290 Z',
-        inner: 'M77 225 L244 223 L241 273 L75 274 Z',
-      },
-      {
-        face: 'M58 342 L264 340 L259 426 L62 424 Z',
-        inner: 'M77 359 L245 358 L242 407 L75 409 Z',
-      },
-      {
-        face: 'M60 477 L261 474 L258 559 L61 558 Z',
-        inner: 'M77 493 L244 491 L241 541 L76 542 Z',
-      },
-      {
-        face: 'M59 608 L263 606 L258 684 L62 682 Z',
-        inner: 'M77 623 L244 622 L241 668 L76 669 Z',
-      },
-    ],
-    []
-  );
+const DoorDrawing = memo(function DoorDrawing({ design }: DoorDrawingProps) {
   return (
     <svg
       aria-hidden="true"
@@ -110,21 +160,25 @@ const DoorDrawing = memo(function DoorDrawing() {
       viewBox="0 0 320 720"
     >
       <g>
-        <path className="door-fill" d="M30 12 L297 9 L294 711 L28 708 Z" />
-        <path className="door-line door-line-heavy" d="M30 12 L297 9 L294 711 L28 708 Z" />
-        <path className="door-line door-line-faint" d="M40 24 L287 23 L284 699 L38 696 Z" />
+        <path className="door-fill" d={design.outline} />
+        <path className="door-line door-line-heavy" d={design.outline} />
+        <path className="door-line door-line-faint" d={design.inset} />
 
-        {panels.map((panel) => (
+        {design.panels.map((panel) => (
           <g className="door-panel" key={panel.face}>
             <path className="door-panel-face" d={panel.face} />
             <path className="door-panel-inner" d={panel.inner} />
           </g>
         ))}
 
+        {design.details.map((detail) => (
+          <path className="door-line door-line-echo" d={detail} key={detail} />
+        ))}
+
         <g className="door-hardware">
-          <path className="door-plate" d="M268 430 L287 428 L288 493 L269 492 Z" />
-          <path className="door-plate-echo" d="M271 434 L285 433 L285 489 L271 489 Z" />
-          <path className="door-keyhole" d="M280 465 C276 465 275 471 278 473 L276 486 H284 L282 473 C285 471 284 465 280 465 Z" />
+          {design.plate && <path className="door-plate" d={design.plate} />}
+          {design.plateEcho && <path className="door-plate-echo" d={design.plateEcho} />}
+          {design.keyhole && <path className="door-keyhole" d={design.keyhole} />}
         </g>
 
       </g>
@@ -132,258 +186,493 @@ const DoorDrawing = memo(function DoorDrawing() {
   );
 });
 
-function EndlessDoor() {
-  const [isDragging, setIsDragging] = useState(false);
-  const [openedCount, setOpenedCount] = useState(0);
-  const [doorMode, setDoorMode] = useState<DoorMode>('idle');
-
-  const activeLeafRef = useRef<HTMLDivElement | null>(null);
-  const angleRef = useRef(0);
-  const animationFrameRef = useRef<number | null>(null);
-  const handoffFrameRef = useRef<number | null>(null);
-  const openedCountRef = useRef(0);
-  const doorModeRef = useRef<DoorMode>('idle');
-  const pointerRef = useRef<PointerSession | null>(null);
-
-  const applyAngle = useCallback((nextAngle: number) => {
-    const clamped = clamp(nextAngle, 0, OPEN_ANGLE);
-    angleRef.current = clamped;
+// Fills the doorway behind a milestone door. The stage is one big button, so
+// the link keeps its presses to itself and stays out of the tab order; the
+// list of finds below the door is the way to it by keyboard.
+function DoorReveal({ milestone }: DoorRevealProps) {
+  return (
+    <div aria-hidden="true" className="door-layer door-reveal" data-testid="door-reveal">
+      {milestone.drawing && (
+        <svg className="door-reveal-drawing" focusable="false" viewBox="0 0 120 120">
+          <path d={milestone.drawing} />
+        </svg>
+      )}
+      <p>
+        {milestone.href ? (
+          <Link
+            href={milestone.href}
+            onPointerDown={(event) => event.stopPropagation()}
+            tabIndex={-1}
+          >
+            {milestone.text}
+          </Link>
+        ) : milestone.text}
+      </p>
+    </div>
+  );
+}
 
-    if (activeLeafRef.current) {
-      activeLeafRef.current.style.transform = `rotateY(${-clamped.toFixed(3)}deg) translateZ(3px)`;
+function EndlessDoor({ initialOpenedCount, onOpenedCountChange }: EndlessDoorProps) {
+  // The server and the first client render use CSS 3D; the canvas takes over
+  // after mount where the browser supports it.
+  const [renderer, setRenderer] = useState<DoorRenderer>('css');
+  const [foundDoors, setFoundDoors] = useState<number[]>([]);
+  const [muted, setMuted] = useState(false);
+  // Null where the device can't vibrate, so there's nothing to switch.
+  const [haptics, setHaptics] = useState<boolean | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+  const [helpOpen, setHelpOpen] = useState(false);
+  const [typedDoor, setTypedDoor] = useState('');
+  const [recording, setRecording] = useState(false);
+  // A finished recording, waiting to be saved or thrown away.
+  const [recorded, setRecorded] = useState<DoorRecording | null>(null);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [exportError, setExportError] = useState('');
+
+  const stageRef = useRef<HTMLDivElement | null>(null);
+  const slotRefs = useRef<Array<HTMLDivElement | null>>([]);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const helpRef = useRef<HTMLDivElement | null>(null);
+  const furthestCountRef = useRef(0);
+  const onOpenedCountChangeRef = useRef(onOpenedCountChange);
+  onOpenedCountChangeRef.current = onOpenedCountChange;
+  const soundRef = useRef<DoorSound | null>(null);
+  const recordingRef = useRef<DoorRecording | null>(null);
+  const recordingTimerRef = useRef<number | null>(null);
+
+  // A leaf element follows its flight, holds the open position while it's
+  // handed to the open stack, and otherwise rests in the doorway.
+  const applySlot = useCallback((slot: number, state: HingedLeafState) => {
+    const element = slotRefs.current[slot];
+    if (!element) {
+      return;
     }
-  }, []);
 
-  const clearActiveLeafTransform = useCallback(() => {
-    angleRef.current = 0;
-    activeLeafRef.current?.style.removeProperty('transform');
+    const { flights } = state;
+    const index = flights.findIndex((flight) => flight.slot === slot);
+    if (index !== -1) {
+      const angle = clamp(flights[index].motion.angle, 0, OPEN_ANGLE);
+      element.style.transform = `rotateY(${-angle.toFixed(3)}deg) translateZ(3px)`;
+      // Leaves further along the chain are further open and sit in front.
+      element.style.zIndex = String(13 + flights.length - index);
+    } else if (state.handoff.some((leaf) => leaf.slot === slot)) {
+      element.style.transform = `rotateY(${-OPEN_ANGLE}deg) translateZ(3px)`;
+    } else {
+      element.style.removeProperty('transform');
+      element.style.removeProperty('z-index');
+    }
   }, []);
 
-  const cancelActiveAnimation = useCallback(() => {
-    if (animationFrameRef.current !== null) {
-      window.cancelAnimationFrame(animationFrameRef.current);
-      animationFrameRef.current = null;
+  // The canvas is redrawn whole from the flights.
+  const paintCanvas = useCallback((state: HingedLeafState) => {
+    if (canvasRef.current) {
+      paintDoorCanvas(canvasRef.current, sceneFromLeaves(state));
     }
   }, []);
 
-  const cancelHandoff = useCallback(() => {
-    if (handoffFrameRef.current !== null) {
-      window.cancelAnimationFrame(handoffFrameRef.current);
-      handoffFrameRef.current = null;
+  const renderLeaves = (state: HingedLeafState) => {
+    if (canvasRef.current) {
+      paintCanvas(state);
+    } else {
+      slotRefs.current.forEach((_, slot) => applySlot(slot, state));
     }
-  }, []);
 
-  const setOpenedCountValue = useCallback((nextCount: number) => {
-    const normalized = Math.max(0, Math.floor(nextCount));
-    openedCountRef.current = normalized;
-    setOpenedCount(normalized);
-  }, []);
+    // One hinge voice, following whichever leaf is moving fastest.
+    const loudest = state.flights.reduce<LeafFlight | null>((fastest, flight) => (
+      !fastest || Math.abs(flight.motion.velocity) > Math.abs(fastest.motion.velocity) ? flight : fastest
+    ), null);
+    if (loudest) {
+      soundRef.current?.creak(loudest.motion, loudest.leaf);
+    } else {
+      soundRef.current?.quiet();
+    }
+  };
 
-  const setDoorModeValue = useCallback((nextMode: DoorMode) => {
-    doorModeRef.current = nextMode;
-    setDoorMode(nextMode);
-  }, []);
+  // A milestone counts as found only when its door is opened onto, not when
+  // a link, a jump or saved progress lands there.
+  const recordFind = (door: number) => {
+    const found = loadFoundMilestones();
+    if (found.includes(door)) {
+      setFoundDoors(found);
+      return;
+    }
 
-  const settleDoorAt = useCallback((settledAngle: number) => {
-    cancelActiveAnimation();
-    cancelHandoff();
-    const mode = doorModeRef.current;
+    const nextFound = [...found, door].sort((a, b) => a - b);
+    saveFoundMilestones(nextFound);
+    setFoundDoors(nextFound);
+  };
 
-    if (settledAngle >= OPEN_ANGLE - SETTLE_EPSILON) {
-      if (mode === 'opening') {
-        setOpenedCountValue(openedCountRef.current + 1);
+  const settleLeaf = ({ leaf, angle, counted }: SettledLeaf) => {
+    soundRef.current?.latch(leaf, angle);
+    if (counted && haptics) {
+      vibrateLatch(angle);
+    }
+    if (counted && angle === OPEN_ANGLE) {
+      if (leaf > furthestCountRef.current) {
+        furthestCountRef.current = leaf;
+        saveFurthestCount(leaf);
+      }
+      if (findDoorMilestone(leaf)) {
+        recordFind(leaf);
       }
+    }
+    if (counted) {
+      setAnnouncement(angle === OPEN_ANGLE
+        ? withMilestone(`Door ${formatDoor(leaf)} opened.`, leaf)
+        : `Door ${formatDoor(leaf)} closed.`);
+    }
+  };
 
-      setDoorModeValue('idle');
-      handoffFrameRef.current = window.requestAnimationFrame(() => {
-        handoffFrameRef.current = null;
-        clearActiveLeafTransform();
-      });
+  const commitOpenedCount = (count: number) => {
+    saveOpenedCount(count);
+    onOpenedCountChangeRef.current?.(count);
+  };
+
+  const { view, dispatch, stateRef } = useHingedLeaf({
+    initialCount: initialOpenedCount,
+    config: LEAF_CONFIG,
+    onFrame: renderLeaves,
+    onSettle: settleLeaf,
+    onCountChange: commitOpenedCount,
+    onEvent: (event) => recordingRef.current?.events.push({ at: window.performance.now(), event }),
+  });
+  const {
+    count: openedCount,
+    mode: doorMode,
+    leaving: leavingCount,
+    opening: openingCount,
+    dragging: isDragging,
+    slots: slotCount,
+    // Doors shown by leaves that are swinging or being handed to the open
+    // stack, by slot; the rest show the door waiting in the doorway.
+    slotLeaves: leafDoors,
+  } = view;
+
+  // Read storage after mount so the prerendered page, which starts at zero,
+  // hydrates cleanly before the saved stack appears.
+  useEffect(() => {
+    if (initialOpenedCount !== undefined) {
       return;
     }
 
-    if (settledAngle <= SETTLE_EPSILON) {
-      if (mode === 'closing') {
-        setOpenedCountValue(openedCountRef.current - 1);
-      }
+    const storedCount = loadOpenedCount();
+    if (storedCount !== null) {
+      dispatch({ type: 'restore', count: storedCount });
     }
+  }, [dispatch, initialOpenedCount]);
 
-    clearActiveLeafTransform();
-    setDoorModeValue('idle');
-  }, [cancelActiveAnimation, cancelHandoff, clearActiveLeafTransform, setDoorModeValue, setOpenedCountValue]);
+  useEffect(() => {
+    if (canvasDoorSupported()) {
+      setRenderer('canvas');
+    }
+  }, []);
 
-  const animateDoor = useCallback((
-    nextMode: Exclude<DoorMode, 'idle'>,
-    startAngle: number,
-    targetAngle: number
-  ) => {
-    cancelActiveAnimation();
-    cancelHandoff();
-    setDoorModeValue(nextMode);
-    applyAngle(startAngle);
+  // Settles, jumps and restored counts all come through a render.
+  useEffect(() => {
+    if (renderer !== 'canvas') {
+      return undefined;
+    }
 
-    const distance = Math.abs(targetAngle - startAngle);
-    const prefersReducedMotion = window.matchMedia?.('(prefers-reduced-motion: reduce)').matches;
+    const repaint = () => paintCanvas(stateRef.current);
+    repaint();
+    window.addEventListener('resize', repaint);
+    return () => window.removeEventListener('resize', repaint);
+  }, [paintCanvas, renderer, stateRef, view]);
 
-    if (distance <= SETTLE_EPSILON || prefersReducedMotion) {
-      applyAngle(targetAngle);
-      settleDoorAt(targetAngle);
-      return;
+  // Attached by hand because React listens for wheels passively, and a scroll
+  // that turns the door mustn't also swipe the browser back a page. Either
+  // axis turns it; the page around the door doesn't scroll.
+  useEffect(() => {
+    const stage = stageRef.current;
+    if (!stage) {
+      return undefined;
     }
 
-    const duration = Math.max(
-      MIN_ANIMATION_DURATION_MS,
-      ANIMATION_DURATION_MS * (distance / OPEN_ANGLE)
-    );
-    let startedAt: number | null = null;
-
-    const tick = (now: number) => {
-      if (startedAt === null) {
-        startedAt = now;
+    const handleWheel = (event: WheelEvent) => {
+      const delta = Math.abs(event.deltaX) >= Math.abs(event.deltaY) ? event.deltaX : event.deltaY;
+      const pointer = stateRef.current.pointer;
+      // A trackpad pinch arrives as a wheel with ctrl held; leave it be.
+      if (delta === 0 || event.ctrlKey || (pointer && pointer.input !== 'wheel')) {
+        return;
       }
 
-      const progress = Math.min(1, (now - startedAt) / duration);
-      const easedProgress = easeInOutCubic(progress);
-      applyAngle(startAngle + (targetAngle - startAngle) * easedProgress);
+      event.preventDefault();
+      dispatch({
+        type: 'wheel',
+        dx: wheelPixels(delta, event.deltaMode, stage.clientWidth),
+        time: event.timeStamp,
+      });
+    };
 
-      if (progress < 1) {
-        animationFrameRef.current = window.requestAnimationFrame(tick);
-        return;
-      }
+    stage.addEventListener('wheel', handleWheel, { passive: false });
+    return () => stage.removeEventListener('wheel', handleWheel);
+  }, [dispatch, stateRef]);
+
+  useEffect(() => {
+    setFoundDoors(loadFoundMilestones());
+    furthestCountRef.current = Math.max(furthestCountRef.current, loadFurthestCount());
+  }, []);
 
-      animationFrameRef.current = null;
-      settleDoorAt(targetAngle);
+  useEffect(() => {
+    const storedMuted = loadMuted();
+    const sound = createDoorSound(storedMuted);
+    soundRef.current = sound;
+    setMuted(storedMuted);
+
+    return () => {
+      sound.close();
+      soundRef.current = null;
     };
+  }, []);
 
-    animationFrameRef.current = window.requestAnimationFrame(tick);
-  }, [applyAngle, cancelActiveAnimation, cancelHandoff, setDoorModeValue, settleDoorAt]);
+  useEffect(() => {
+    if (hapticsSupported()) {
+      setHaptics(loadHaptics());
+    }
+  }, []);
 
-  const openDoor = useCallback(() => {
-    const startAngle = angleRef.current;
-    animateDoor('opening', startAngle, OPEN_ANGLE);
-  }, [animateDoor]);
+  const stopRecording = useCallback(() => {
+    if (recordingTimerRef.current !== null) {
+      window.clearTimeout(recordingTimerRef.current);
+      recordingTimerRef.current = null;
+    }
 
-  const closeDoor = useCallback(() => {
-    if (openedCountRef.current === 0 && doorModeRef.current !== 'closing') {
+    const finished = recordingRef.current;
+    recordingRef.current = null;
+    setRecording(false);
+    if (!finished) {
       return;
     }
 
-    const startAngle = doorModeRef.current === 'closing' ? angleRef.current : OPEN_ANGLE;
-    animateDoor('closing', startAngle, 0);
-  }, [animateDoor]);
+    finished.stoppedAt = window.performance.now();
+    const moved = finished.events.length > 0;
+    setRecorded(moved ? finished : null);
+    setAnnouncement(moved
+      ? 'Recording stopped. Save it as a GIF or a video.'
+      : 'Recording stopped. Nothing moved, so there is nothing to save.');
+  }, []);
 
   useEffect(() => {
     return () => {
-      cancelActiveAnimation();
-      cancelHandoff();
+      if (recordingTimerRef.current !== null) {
+        window.clearTimeout(recordingTimerRef.current);
+      }
     };
-  }, [cancelActiveAnimation, cancelHandoff]);
+  }, []);
 
-  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
-    if (event.button !== 0) {
+  const toggleRecording = () => {
+    if (recordingRef.current) {
+      stopRecording();
       return;
     }
 
-    const startAngle = angleRef.current;
-
-    pointerRef.current = {
-      id: event.pointerId,
-      startX: event.clientX,
-      startY: event.clientY,
-      startAngle,
-      moved: false,
-      mode: doorModeRef.current === 'idle' ? null : doorModeRef.current,
-    };
-
-    cancelActiveAnimation();
-    setIsDragging(true);
-    event.currentTarget.setPointerCapture(event.pointerId);
+    const now = window.performance.now();
+    recordingRef.current = { count: stateRef.current.count, startedAt: now, stoppedAt: now, events: [] };
+    recordingTimerRef.current = window.setTimeout(stopRecording, MAX_RECORDING_SECONDS * 1000);
+    setRecording(true);
+    setRecorded(null);
+    setExportError('');
+    setAnnouncement(`Recording for up to ${MAX_RECORDING_SECONDS} seconds. Open some doors, then press Stop.`);
   };
 
-  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
-    const pointer = pointerRef.current;
-    if (!pointer || pointer.id !== event.pointerId) {
+  const saveRecording = (format: ExportFormat) => {
+    if (!recorded) {
       return;
     }
 
-    const dx = pointer.startX - event.clientX;
-    const dy = pointer.startY - event.clientY;
-    if (Math.hypot(dx, dy) > 5) {
-      pointer.moved = true;
-    }
+    setExporting(format);
+    setExportError('');
+    (format === 'gif' ? exportGif(recorded) : exportWebm(recorded))
+      .then((blob) => downloadBlob(blob, `endless-door.${format}`))
+      .catch(() => setExportError(format === 'gif' ? 'Could not make the GIF.' : 'Could not make the video.'))
+      .finally(() => setExporting(null));
+  };
 
-    if (!pointer.mode && pointer.moved) {
-      pointer.mode = dx < 0 && openedCountRef.current > 0 ? 'closing' : 'opening';
-      pointer.startAngle = pointer.mode === 'closing' ? OPEN_ANGLE : pointer.startAngle;
-      setDoorModeValue(pointer.mode);
-      applyAngle(pointer.startAngle);
+  const jumpTo = (count: number) => {
+    dispatch({ type: 'jump', count });
+    const door = stateRef.current.count;
+    setAnnouncement(door === 0
+      ? 'Back to the first door.'
+      : withMilestone(`Jumped to door ${formatDoor(door)}.`, door));
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (event.button !== 0) {
+      return;
     }
 
-    if (pointer.mode) {
-      applyAngle(pointer.startAngle + dx * DRAG_DEGREES_PER_PIXEL);
+    soundRef.current?.unlock();
+    dispatch({
+      type: 'pointerDown',
+      id: event.pointerId,
+      x: event.clientX,
+      y: event.clientY,
+      time: event.timeStamp,
+      input: pointerInput(event.pointerType),
+    });
+    event.currentTarget.setPointerCapture(event.pointerId);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!holdsPointer(stateRef.current, event.pointerId)) {
+      return;
     }
 
+    dispatch({
+      type: 'pointerMove',
+      id: event.pointerId,
+      x: event.clientX,
+      y: event.clientY,
+      time: event.timeStamp,
+    });
     event.preventDefault();
   };
 
   const finishPointer = (event: React.PointerEvent<HTMLDivElement>) => {
-    const pointer = pointerRef.current;
-    if (!pointer || pointer.id !== event.pointerId) {
+    if (!holdsPointer(stateRef.current, event.pointerId)) {
       return;
     }
 
-    pointerRef.current = null;
-    setIsDragging(false);
+    // A click on the left, over the open doors, closes the last of them.
+    const rect = event.currentTarget.getBoundingClientRect();
+    dispatch({
+      type: 'pointerUp',
+      id: event.pointerId,
+      time: event.timeStamp,
+      onOpenSide: event.clientX < rect.left + rect.width * 0.42,
+    });
 
     if (event.currentTarget.hasPointerCapture(event.pointerId)) {
       event.currentTarget.releasePointerCapture(event.pointerId);
     }
+  };
 
-    if (!pointer.moved) {
-      const rect = event.currentTarget.getBoundingClientRect();
-      const clickedOpenDoorSide =
-        openedCountRef.current > 0 && event.clientX < rect.left + rect.width * 0.42;
+  // The help takes focus while it's open and hands it back to the door.
+  const closeHelp = () => {
+    setHelpOpen(false);
+    stageRef.current?.focus();
+  };
 
-      if (clickedOpenDoorSide) {
-        closeDoor();
-      } else {
-        openDoor();
-      }
+  const toggleHelp = () => {
+    if (helpOpen) {
+      closeHelp();
+    } else {
+      setHelpOpen(true);
+    }
+  };
+
+  useEffect(() => {
+    if (helpOpen) {
+      helpRef.current?.focus();
+    }
+  }, [helpOpen]);
+
+  const handleHelpKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.key === 'Escape' || event.key === '?') {
+      event.preventDefault();
+      closeHelp();
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    const { key } = event;
 
+    if (key === '?') {
+      event.preventDefault();
+      toggleHelp();
       return;
     }
 
-    const pointerMode = pointer.mode;
-    if (!pointerMode || pointerMode === 'idle') {
-      clearActiveLeafTransform();
-      setDoorModeValue('idle');
+    // While a door number is being typed, Enter goes there and Escape and
+    // Backspace edit the number rather than closing doors.
+    if (/^\d$/.test(key)) {
+      event.preventDefault();
+      setTypedDoor((typed) => `${typed}${key}`.replace(/^0+/, '').slice(0, MAX_TYPED_DIGITS));
       return;
     }
 
-    const currentAngle = angleRef.current;
-    const targetAngle = currentAngle >= OPEN_ANGLE / 2 ? OPEN_ANGLE : 0;
-    animateDoor(pointerMode, currentAngle, targetAngle);
-  };
+    if (typedDoor && (key === 'Enter' || key === 'Escape' || key === 'Backspace')) {
+      event.preventDefault();
+      if (key === 'Enter') {
+        jumpTo(Number(typedDoor));
+      }
+      setTypedDoor(key === 'Backspace' ? typedDoor.slice(0, -1) : '');
+      return;
+    }
 
-  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
-    if (event.key === 'Enter' || event.key === ' ' || event.key === 'ArrowLeft') {
+    if (helpOpen && key === 'Escape') {
       event.preventDefault();
-      openDoor();
+      closeHelp();
+      return;
+    }
+
+    if (key === 'Home' || key === 'End' || key === 'PageUp' || key === 'PageDown') {
+      event.preventDefault();
+      const jumps: Record<string, number> = {
+        Home: 0,
+        End: furthestCountRef.current,
+        PageUp: stateRef.current.count + PAGE_DOORS,
+        PageDown: stateRef.current.count - PAGE_DOORS,
+      };
+      jumpTo(jumps[key]);
+      return;
     }
 
-    if (event.key === 'Escape' || event.key === 'Backspace' || event.key === 'ArrowRight') {
+    // The door swings left, so left opens and right closes it, the other way
+    // round from most sliders; the value text and the help say so.
+    if (key === 'Enter' || key === ' ' || key === 'ArrowLeft' || key === 'ArrowUp') {
       event.preventDefault();
-      closeDoor();
+      soundRef.current?.unlock();
+      dispatch({ type: 'open', repeat: event.repeat });
     }
+
+    if (key === 'Escape' || key === 'Backspace' || key === 'ArrowRight' || key === 'ArrowDown') {
+      event.preventDefault();
+      soundRef.current?.unlock();
+      dispatch({ type: 'close', repeat: event.repeat });
+    }
+  };
+
+  const toggleMuted = () => {
+    const nextMuted = !muted;
+    setMuted(nextMuted);
+    saveMuted(nextMuted);
+    soundRef.current?.setMuted(nextMuted);
+    soundRef.current?.unlock();
   };
 
-  const staticOpenCount = Math.max(0, openedCount - (doorMode === 'closing' ? 1 : 0));
+  const toggleHaptics = () => {
+    const nextHaptics = !haptics;
+    setHaptics(nextHaptics);
+    saveHaptics(nextHaptics);
+  };
+
+  const staticOpenCount = Math.max(0, openedCount - leavingCount);
   const showOpenLeaf = staticOpenCount > 0;
+  // The door in the doorway once those swinging open have gone through.
+  const waitingDoor = openedCount + openingCount + 1;
+  // A resting leaf covers the doorway, so the layer behind shows the door after.
+  const doorwayCovered = leafDoors.filter((door) => door !== null).length < slotCount;
+  const revealedDoor = waitingDoor + (doorwayCovered ? 1 : 0);
+  // The last door through: opened, or on its way open. A milestone behind it
+  // takes the doorway, so resting leaves stand aside until the next press.
+  const milestone = findDoorMilestone(waitingDoor - 1);
+  const foundMilestones = doorMilestones.filter(({ door }) => foundDoors.includes(door));
 
   return (
     <section className="endless-door-object" data-testid="endless-door">
+      {/* A slider over how many doors are open: arrows step a door at a time,
+          Home, End and the page keys jump, and the value is read out. */}
       <div
-        aria-label="Endless hand-drawn door. Click or drag left to open; drag right to close."
+        aria-describedby="endless-door-instructions"
+        aria-label="Endless Door"
+        aria-valuemax={MAX_OPENED_COUNT}
+        aria-valuemin={0}
+        aria-valuenow={openedCount}
+        aria-valuetext={[
+          `${formatDoor(openedCount)} ${openedCount === 1 ? 'door' : 'doors'} opened`,
+          'left arrow opens, right arrow closes',
+        ].join('; ')}
         className={[
           'endless-door-stage',
           isDragging ? 'is-dragging' : '',
@@ -392,6 +681,7 @@ function EndlessDoor() {
           doorMode === 'closing' ? 'is-closing' : '',
         ].filter(Boolean).join(' ')}
         data-opened-count={openedCount}
+        data-renderer={renderer}
         data-transition-mode={doorMode}
         data-testid="door-stage"
         onKeyDown={handleKeyDown}
@@ -400,27 +690,156 @@ function EndlessDoor() {
         onPointerDown={handlePointerDown}
         onPointerMove={handlePointerMove}
         onPointerUp={finishPointer}
-        role="button"
+        ref={stageRef}
+        role="slider"
         tabIndex={0}
       >
-        <div aria-hidden="true" className="door-layer door-layer-next">
-          <DoorBody />
-        </div>
+        {renderer === 'canvas' ? (
+          <>
+            {milestone && <DoorReveal milestone={milestone} />}
+            <canvas aria-hidden="true" className="door-canvas" ref={canvasRef} />
+          </>
+        ) : (
+          <>
+            <div aria-hidden="true" className="door-layer door-layer-next">
+              <DoorBody door={revealedDoor} />
+            </div>
 
-        <div aria-hidden="true" className="door-open-stack">
-          {showOpenLeaf && (
-            <div
-              className="door-open-leaf"
-            >
-              <DoorBody />
+            {milestone && <DoorReveal milestone={milestone} />}
+
+            <div aria-hidden="true" className="door-open-stack">
+              {showOpenLeaf && (
+                <div className="door-open-leaf" data-testid="door-open-leaf">
+                  <DoorBody door={staticOpenCount} />
+                </div>
+              )}
             </div>
+
+            {Array.from({ length: slotCount }, (_, slot) => (
+              <div
+                aria-hidden="true"
+                className={milestone && leafDoors[slot] == null ? 'door-leaf is-stood-aside' : 'door-leaf'}
+                data-testid={slot === 0 ? 'door-leaf' : undefined}
+                key={slot}
+                ref={(element) => {
+                  slotRefs.current[slot] = element;
+                  if (element) {
+                    applySlot(slot, stateRef.current);
+                  }
+                }}
+              >
+                <DoorBody door={leafDoors[slot] ?? waitingDoor} />
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+
+      {openedCount > 0 && (
+        <p className="door-counter" data-testid="door-counter">
+          {formatDoor(openedCount)} {openedCount === 1 ? 'door' : 'doors'} opened
+        </p>
+      )}
+
+      {typedDoor && (
+        <p className="door-typed" data-testid="door-typed">
+          Go to door {formatDoor(Number(typedDoor))} <kbd>Enter</kbd>
+        </p>
+      )}
+
+      <p className="door-visually-hidden" id="endless-door-instructions">
+        Click or drag left to open; drag right to close. Scrolling, or a swipe with
+        two fingers, turns it too. Press ? for the keyboard controls.
+      </p>
+
+      <div className="door-controls">
+        <button
+          aria-controls="endless-door-help"
+          aria-expanded={helpOpen}
+          onClick={toggleHelp}
+          type="button"
+        >
+          Keys
+        </button>
+        <button aria-pressed={!muted} onClick={toggleMuted} type="button">
+          Sound
+        </button>
+        {haptics !== null && (
+          <button aria-pressed={haptics} onClick={toggleHaptics} type="button">
+            Haptics
+          </button>
+        )}
+        <button
+          className={recording ? 'door-record is-recording' : 'door-record'}
+          onClick={toggleRecording}
+          type="button"
+        >
+          {recording ? 'Stop' : 'Record'}
+        </button>
+      </div>
+
+      {recorded && (
+        <div aria-label="Save the recording" className="door-export" role="group">
+          <button disabled={exporting !== null} onClick={() => saveRecording('gif')} type="button">
+            {exporting === 'gif' ? 'Making GIF…' : 'Save GIF'}
+          </button>
+          {webmSupported() && (
+            <button disabled={exporting !== null} onClick={() => saveRecording('webm')} type="button">
+              {exporting === 'webm' ? 'Recording video…' : 'Save video'}
+            </button>
           )}
+          <button disabled={exporting !== null} onClick={() => setRecorded(null)} type="button">
+            Discard
+          </button>
+          {exportError && <p role="alert">{exportError}</p>}
         </div>
-
-        <div aria-hidden="true" className="door-leaf" data-testid="door-leaf" ref={activeLeafRef}>
-          <DoorBody />
+      )}
+
+      {helpOpen && (
+        <div
+          aria-labelledby="endless-door-help-title"
+          className="door-help"
+          id="endless-door-help"
+          onKeyDown={handleHelpKeyDown}
+          ref={helpRef}
+          role="dialog"
+          tabIndex={-1}
+        >
+          <h2 id="endless-door-help-title">Keyboard</h2>
+          <p>The door swings open to the left, so the arrows run the other way from most sliders.</p>
+          <dl>
+            {KEYBOARD_HELP.map(([keys, action]) => (
+              <div key={keys}>
+                <dt>{keys}</dt>
+                <dd>{action}</dd>
+              </div>
+            ))}
+          </dl>
+          <button className="door-help-close" onClick={closeHelp} type="button">
+            Close
+          </button>
         </div>
-      </div>
+      )}
+
+      <p className="door-visually-hidden" role="status">
+        {announcement}
+      </p>
+
+      {foundMilestones.length > 0 && (
+        <details className="door-found">
+          <summary>
+            Found {foundMilestones.length} of {doorMilestones.length}
+          </summary>
+          <ol>
+            {foundMilestones.map(({ door, href, text }) => (
+              <li key={door}>
+                <span className="door-found-number">Door {formatDoor(door)}</span>
+                {href ? <Link href={href}>{text}</Link> : text}
+              </li>
+            ))}
+          </ol>
+        </details>
+      )}
     </section>
   );
 }
@@ -0,0 +1,292 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { downloadBlob } from './download';
+import { BENCHMARK_COUNTS, benchmarkCount, BenchmarkResult } from './gateBallsBenchmark';
+import {
+  decodeSession,
+  encodeSession,
+  fixedStepFromSearch,
+  GateBallsSession,
+  randomSeed,
+  replayFromSearch,
+  searchWithRun,
+  seedFromSearch,
+} from './gateBallsSession';
+import {
+  DEFAULT_GATE_BALLS_SETTINGS,
+  GATE_BALLS_SETTINGS,
+  GateBallsSettings,
+  clampSetting,
+  searchWithSettings,
+  settingsFromSearch,
+} from './gateBallsSettings';
+import RotatingGateBalls, { GateBallsHandle } from './PhysicsVisual';
+import { useReplaceSearch, useRouter } from './router';
+import './GateBallsPage.css';
+
+const formatMs = (ms: number) => `${ms.toFixed(2)} ms`;
+
+// Times one ball count per task, so the table fills in as it goes.
+function Benchmark() {
+  const [results, setResults] = useState<BenchmarkResult[]>([]);
+  const [running, setRunning] = useState(false);
+  const timerRef = useRef<number | null>(null);
+
+  useEffect(() => () => {
+    if (timerRef.current !== null) {
+      window.clearTimeout(timerRef.current);
+    }
+  }, []);
+
+  const run = () => {
+    setResults([]);
+    setRunning(true);
+    const measure = (index: number) => {
+      if (index >= BENCHMARK_COUNTS.length) {
+        timerRef.current = null;
+        setRunning(false);
+        return;
+      }
+
+      const result = benchmarkCount(BENCHMARK_COUNTS[index]);
+      setResults((previous) => [...previous, result]);
+      timerRef.current = window.setTimeout(() => measure(index + 1), 0);
+    };
+    timerRef.current = window.setTimeout(() => measure(0), 0);
+  };
+
+  return (
+    <section className="gate-balls-benchmark" aria-label="Benchmark">
+      <button type="button" onClick={run} disabled={running}>
+        {running ? 'Measuring…' : 'Run benchmark'}
+      </button>
+      {results.length > 0 && (
+        <table>
+          <caption>Time per step</caption>
+          <thead>
+            <tr>
+              <th scope="col">Balls</th>
+              <th scope="col">Grid</th>
+              <th scope="col">All pairs</th>
+            </tr>
+          </thead>
+          <tbody>
+            {results.map((result) => (
+              <tr key={result.balls}>
+                <th scope="row">{result.balls}</th>
+                <td>{formatMs(result.grid)}</td>
+                <td>{formatMs(result.allPairs)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
+
+const readText = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(String(reader.result));
+  reader.onerror = () => reject(reader.error);
+  reader.readAsText(file);
+});
+
+type SessionControlsProps = {
+  simulation: React.RefObject<GateBallsHandle | null>;
+  replaying: boolean;
+  onLoad: (session: GateBallsSession) => void;
+  onShare: (session: GateBallsSession) => void;
+  onRestart: () => void;
+  onStopReplay: () => void;
+};
+
+// Saving, sharing and loading fixed-timestep runs.
+function SessionControls({
+  simulation,
+  replaying,
+  onLoad,
+  onShare,
+  onRestart,
+  onStopReplay,
+}: SessionControlsProps) {
+  const [status, setStatus] = useState('');
+
+  const withSession = (use: (session: GateBallsSession) => void) => {
+    simulation.current?.session().then((session) => {
+      if (session) {
+        use(session);
+      }
+    });
+  };
+
+  const save = () => withSession((session) => {
+    downloadBlob(new Blob([encodeSession(session)], { type: 'application/json' }), 'gate-balls-session.json');
+  });
+
+  const share = () => withSession((session) => {
+    onShare(session);
+    setStatus('The address bar now links to this replay.');
+  });
+
+  const load = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const input = event.target;
+    const file = input.files?.[0];
+    if (!file) {
+      return;
+    }
+
+    readText(file).then(
+      (text) => {
+        const session = decodeSession(text);
+        if (session) {
+          onLoad(session);
+          setStatus(`Replaying ${file.name}.`);
+        } else {
+          setStatus(`${file.name} isn’t a saved Gate Balls session.`);
+        }
+      },
+      () => setStatus(`${file.name} couldn’t be read.`)
+    );
+    // Let the same file be chosen again.
+    input.value = '';
+  };
+
+  return (
+    <section className="gate-balls-session" aria-label="Session">
+      <button type="button" onClick={save}>Save session</button>
+      <button type="button" onClick={share}>Share replay</button>
+      <button type="button" onClick={onRestart}>
+        {replaying ? 'Replay again' : 'Start over'}
+      </button>
+      {replaying && <button type="button" onClick={onStopReplay}>Stop replay</button>}
+      <label>
+        <span>Load session</span>
+        <input type="file" accept="application/json,.json" onChange={load} />
+      </label>
+      <p role="status">{status}</p>
+    </section>
+  );
+}
+
+export default function GateBallsPage() {
+  const { location } = useRouter();
+  const replaceSearch = useReplaceSearch();
+  const [replay, setReplay] = useState(() => replayFromSearch(location.search));
+  const [settings, setSettings] = useState(() => replay?.settings ?? settingsFromSearch(location.search));
+  const [fixedStep, setFixedStep] = useState(() => replay !== null || fixedStepFromSearch(location.search));
+  // The same seed each time the run starts over, so a fixed run repeats.
+  const [seed] = useState(() => seedFromSearch(location.search) ?? randomSeed());
+  // Bumped to start the simulation over.
+  const [runs, setRuns] = useState(0);
+  const simulation = useRef<GateBallsHandle>(null);
+  const benchmarking = new URLSearchParams(location.search).has('bench');
+
+  // As on the door, the address bar follows the controls so copying it
+  // shares the configuration, once a dragged slider comes to rest. A replay
+  // link stops describing the run once it's changed, so it's dropped.
+  const changeSettings = (next: GateBallsSettings) => {
+    setSettings(next);
+    replaceSearch((search) => searchWithRun(searchWithSettings(search, next), fixedStep, null));
+  };
+
+  const startRun = (nextFixedStep: boolean, nextReplay: GateBallsSession | null) => {
+    setFixedStep(nextFixedStep);
+    setReplay(nextReplay);
+    setRuns((count) => count + 1);
+  };
+
+  const changeFixedStep = (next: boolean) => {
+    startRun(next, null);
+    replaceSearch((search) => searchWithRun(search, next, null), { immediate: true });
+  };
+
+  const loadSession = (session: GateBallsSession) => {
+    setSettings(session.settings);
+    startRun(true, session);
+    replaceSearch(
+      (search) => searchWithRun(searchWithSettings(search, session.settings), true, session),
+      { immediate: true }
+    );
+  };
+
+  useEffect(() => {
+    document.documentElement.style.background = '#070b14';
+    document.body.style.background = '#070b14';
+
+    return () => {
+      document.documentElement.style.removeProperty('background');
+      document.body.style.removeProperty('background');
+    };
+  }, []);
+
+  return (
+    <main className="gate-balls-page" aria-label="Gate Balls">
+      <RotatingGateBalls
+        ref={simulation}
+        settings={settings}
+        seed={seed}
+        fixedStep={fixedStep}
+        replay={replay}
+        run={runs}
+      >
+        <h1>Gate Balls</h1>
+        <p>
+          Balls that slip out through the gap split in two. Drag the ring&rsquo;s rim
+          to spin it.
+        </p>
+        <form className="gate-balls-controls" aria-label="Simulation settings" onSubmit={(event) => event.preventDefault()}>
+          {GATE_BALLS_SETTINGS.map((setting) => (
+            <label key={setting.key}>
+              <span>{setting.label}</span>
+              <output>{setting.format(settings[setting.key])}</output>
+              <input
+                type="range"
+                min={setting.min}
+                max={setting.max}
+                step={setting.step}
+                value={settings[setting.key]}
+                // A replay plays with the settings it was saved with.
+                disabled={replay !== null}
+                aria-label={setting.label}
+                aria-valuetext={setting.format(settings[setting.key])}
+                onChange={(event) => changeSettings({
+                  ...settings,
+                  [setting.key]: clampSetting(setting, Number(event.target.value)),
+                })}
+              />
+            </label>
+          ))}
+          <label className="gate-balls-toggle">
+            <input
+              type="checkbox"
+              checked={fixedStep}
+              onChange={(event) => changeFixedStep(event.target.checked)}
+            />
+            <span>Fixed timestep</span>
+          </label>
+          <button
+            type="button"
+            disabled={replay !== null}
+            onClick={() => changeSettings(DEFAULT_GATE_BALLS_SETTINGS)}
+          >
+            Reset
+          </button>
+        </form>
+        {fixedStep && (
+          <SessionControls
+            simulation={simulation}
+            replaying={replay !== null}
+            onLoad={loadSession}
+            onShare={(session) => replaceSearch(
+              (search) => searchWithRun(search, true, session),
+              { immediate: true }
+            )}
+            onRestart={() => startRun(fixedStep, replay)}
+            onStopReplay={() => changeFixedStep(true)}
+          />
+        )}
+        {benchmarking && <Benchmark />}
+      </RotatingGateBalls>
+    </main>
+  );
+}
@@ -0,0 +1,112 @@
+import {
+  canvasDoorSupported,
+  drawDoorScene,
+  paintOrder,
+  parsePath,
+  projectLeafPoint,
+} from './doorCanvas';
+import { doorDesign } from './doorVariations';
+
+const stage = { width: 320, height: 640 };
+
+// Records every call made on a 2D context, and answers gradients with stubs.
+const recordingContext = () => {
+  const calls: string[] = [];
+  const context = new Proxy({}, {
+    get: (target, name: string) => {
+      if (name === 'calls') {
+        return calls;
+      }
+
+      return (...args: unknown[]) => {
+        calls.push(name);
+        return name.startsWith('create') ? { addColorStop: () => undefined, args } : undefined;
+      };
+    },
+    set: () => true,
+  });
+
+  return { calls, context: context as unknown as CanvasRenderingContext2D };
+};
+
+test('reads the path commands the door generator writes', () => {
+  expect(parsePath('M280 465 C276 465 275 471.5 278 473 L276 486 H284 V490 Z')).toEqual([
+    { type: 'M', x: 280, y: 465 },
+    { type: 'C', x1: 276, y1: 465, x2: 275, y2: 471.5, x: 278, y: 473 },
+    { type: 'L', x: 276, y: 486 },
+    { type: 'L', x: 284, y: 486 },
+    { type: 'L', x: 284, y: 490 },
+    { type: 'Z' },
+  ]);
+  expect(() => parsePath('M0 0 Q10 10 20 0')).toThrow('Unsupported path command "Q"');
+});
+
+test('can draw every generated door', () => {
+  for (let door = 1; door <= 300; door += 1) {
+    const design = doorDesign(door);
+    [
+      design.outline,
+      design.inset,
+      ...design.panels.flatMap((panel) => [panel.face, panel.inner]),
+      ...design.details,
+      design.plate ?? '',
+      design.plateEcho ?? '',
+      design.keyhole ?? '',
+    ].forEach((d) => expect(() => parsePath(d)).not.toThrow());
+  }
+});
+
+test('turns leaf points about the hinge in perspective', () => {
+  const shut = projectLeafPoint(stage, 0, 160, 360);
+  expect(shut.x).toBeCloseTo(160);
+  expect(shut.y).toBeCloseTo(320);
+  expect(shut.scale).toBe(1);
+
+  // Flat open, the latch edge lies as far left of the hinge as it was right.
+  const hinge = 0.077 * stage.width;
+  const open = projectLeafPoint(stage, 180, 300, 360);
+  expect(hinge - open.x).toBeCloseTo(300 - hinge);
+
+  // Square to the wall, the free edge comes toward the viewer and looms.
+  const square = projectLeafPoint(stage, 90, 300, 0);
+  expect(square.scale).toBeGreaterThan(1.1);
+  expect(square.x).toBeLessThan(hinge);
+  expect(square.y).toBeLessThan(0);
+});
+
+test('paints leaves furthest back first', () => {
+  expect(paintOrder([
+    { door: 4, angle: 20 },
+    { door: 3, angle: 150 },
+    { door: 5, angle: 90 },
+  ]).map(({ door }) => door)).toEqual([3, 5, 4]);
+});
+
+test('leaves the doorway clear for a reveal and shades it behind a swinging leaf', () => {
+  const withDoor = recordingContext();
+  drawDoorScene(withDoor.context, { ...stage, doorway: 2, open: null, leaves: [] });
+  const clear = recordingContext();
+  drawDoorScene(clear.context, { ...stage, doorway: null, open: null, leaves: [] });
+
+  expect(withDoor.calls).toContain('stroke');
+  expect(clear.calls).toHaveLength(0);
+
+  const swinging = recordingContext();
+  drawDoorScene(swinging.context, { ...stage, doorway: null, open: null, leaves: [{ door: 3, angle: 60 }] });
+  expect(swinging.calls[0]).toBe('createLinearGradient');
+  expect(swinging.calls).toContain('fillRect');
+});
+
+test('uses the canvas only where the browser supports it', () => {
+  expect(canvasDoorSupported()).toBe(false);
+
+  const getContext = jest
+    .spyOn(HTMLCanvasElement.prototype, 'getContext')
+    .mockReturnValue({} as CanvasRenderingContext2D);
+  window.Path2D = class {} as unknown as typeof Path2D;
+
+  expect(canvasDoorSupported()).toBe(true);
+
+  delete (window as Partial<Window & typeof globalThis>).Path2D;
+  getContext.mockRestore();
+});
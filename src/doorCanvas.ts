@@ -0,0 +1,408 @@
+import { OPEN_ANGLE } from './doorPhysics';
+import { DoorDesign, doorDesign } from './doorVariations';
+import { HingedLeafState } from './hingedLeaf';
+import { findDoorMilestone } from './portfolio/content';
+
+// Draws the Endless Door into a canvas with real perspective: every point of
+// a leaf is turned about the hinge and projected, the leaf is lit by how it
+// faces the light, and a leaf swinging open shades the doorway behind it. It
+// mirrors the CSS renderer's geometry so the two look like the same door.
+
+export type DoorRenderer = 'css' | 'canvas';
+
+export type DoorLeafState = {
+  door: number;
+  angle: number;
+};
+
+export type DoorScene = {
+  // Size of the door stage in CSS pixels.
+  width: number;
+  height: number;
+  // The door resting in the doorway, or null when something is revealed there.
+  doorway: number | null;
+  // The last door opened, lying back against the wall.
+  open: number | null;
+  leaves: DoorLeafState[];
+};
+
+export type PathCommand =
+  | { type: 'M' | 'L'; x: number; y: number }
+  | { type: 'C'; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+  | { type: 'Z' };
+
+// Same numbers as DoorPage.css: the drawing board, the hinge line, the
+// perspective distance and the leaf thickness.
+const BOARD_WIDTH = 320;
+const BOARD_HEIGHT = 720;
+const HINGE_X = 0.077;
+const PERSPECTIVE = 1400;
+const DEPTH = 7;
+const KNOB_RADIUS = 0.03;
+const KNOB_THROW = 6;
+// The canvas overhangs the stage so an open leaf, which lies left of the
+// hinge and looms larger as it swings out, stays on it.
+export const CANVAS_OVERHANG = { x: 1, y: 0.2 };
+
+// Light falls from in front of the door and a little to the right.
+const LIGHT = { x: 0.33, z: 0.94 };
+const REST_LIGHT = LIGHT.z;
+
+const SOLID_FILL = [16, 16, 15];
+const PANEL_FILL = [19, 19, 18];
+
+export function canvasDoorSupported() {
+  // jsdom and very old browsers have no Path2D; check before touching a
+  // canvas, which jsdom reports as unimplemented.
+  if (typeof window === 'undefined' || typeof window.Path2D === 'undefined') {
+    return false;
+  }
+
+  try {
+    return document.createElement('canvas').getContext('2d') !== null;
+  } catch {
+    return false;
+  }
+}
+
+// The subset of SVG path data the door generator writes: absolute M, L, H,
+// V, C and Z.
+export function parsePath(d: string): PathCommand[] {
+  const tokens = d.match(/[A-Za-z]|-?\d*\.?\d+/g) ?? [];
+  const commands: PathCommand[] = [];
+  let x = 0;
+  let y = 0;
+  let index = 0;
+  const next = () => Number(tokens[index++]);
+
+  while (index < tokens.length) {
+    const type = tokens[index++];
+
+    switch (type) {
+      case 'M':
+      case 'L':
+        x = next();
+        y = next();
+        commands.push({ type, x, y });
+        break;
+      case 'H':
+        x = next();
+        commands.push({ type: 'L', x, y });
+        break;
+      case 'V':
+        y = next();
+        commands.push({ type: 'L', x, y });
+        break;
+      case 'C': {
+        const [x1, y1, x2, y2] = [next(), next(), next(), next()];
+        x = next();
+        y = next();
+        commands.push({ type: 'C', x1, y1, x2, y2, x, y });
+        break;
+      }
+      case 'Z':
+        commands.push({ type: 'Z' });
+        break;
+      default:
+        throw new Error(`Unsupported path command ${JSON.stringify(type)} in ${JSON.stringify(d)}`);
+    }
+  }
+
+  return commands;
+}
+
+// A door's design with its paths parsed, as it's drawn frame after frame.
+type DrawnDoor = {
+  design: DoorDesign;
+  paths: Map<string, PathCommand[]>;
+};
+
+// Enough for the doorway, the open door and a held key's chain of leaves.
+// Past that the door drawn least recently is dropped, so a long run of doors
+// doesn't keep every one it has passed.
+const DRAWN_DOOR_LIMIT = 16;
+const drawnDoors = new Map<number, DrawnDoor>();
+
+function drawnDoor(door: number) {
+  let drawn = drawnDoors.get(door);
+  if (drawn) {
+    drawnDoors.delete(door);
+  } else {
+    drawn = { design: doorDesign(door), paths: new Map() };
+    if (drawnDoors.size >= DRAWN_DOOR_LIMIT) {
+      drawnDoors.delete(drawnDoors.keys().next().value);
+    }
+  }
+
+  drawnDoors.set(door, drawn);
+  return drawn;
+}
+
+function drawnPath({ paths }: DrawnDoor, d: string) {
+  let commands = paths.get(d);
+  if (!commands) {
+    commands = parsePath(d);
+    paths.set(d, commands);
+  }
+
+  return commands;
+}
+
+// Where a point on the leaf's board lands on the stage once the leaf has
+// swung `angle` degrees toward the viewer. `offset` lifts the point off the
+// leaf's centre plane: positive toward its front face.
+export function projectLeafPoint(
+  { width, height }: Pick<DoorScene, 'width' | 'height'>,
+  angle: number,
+  u: number,
+  v: number,
+  offset = 0
+) {
+  const radians = (angle * Math.PI) / 180;
+  const hinge = HINGE_X * width;
+  const across = (u / BOARD_WIDTH) * width - hinge;
+  const x = hinge + across * Math.cos(radians) - offset * Math.sin(radians);
+  const z = across * Math.sin(radians) + offset * Math.cos(radians);
+  const y = (v / BOARD_HEIGHT) * height;
+  const scale = PERSPECTIVE / (PERSPECTIVE - z);
+
+  return {
+    x: width / 2 + (x - width / 2) * scale,
+    y: height / 2 + (y - height / 2) * scale,
+    scale,
+  };
+}
+
+// Painter's order: leaves lying furthest back, nearest the wall, go first.
+export const paintOrder = (leaves: DoorLeafState[]) =>
+  [...leaves].sort((a, b) => b.angle - a.angle);
+
+const rgb = ([red, green, blue]: number[], light: number) =>
+  `rgb(${[red, green, blue].map((channel) => Math.round(channel * light)).join(', ')})`;
+
+function traceLeafPath(
+  context: CanvasRenderingContext2D,
+  scene: DoorScene,
+  angle: number,
+  offset: number,
+  commands: PathCommand[]
+) {
+  const at = (u: number, v: number) => projectLeafPoint(scene, angle, u, v, offset);
+
+  context.beginPath();
+  commands.forEach((command) => {
+    if (command.type === 'Z') {
+      context.closePath();
+    } else if (command.type === 'C') {
+      const first = at(command.x1, command.y1);
+      const second = at(command.x2, command.y2);
+      const end = at(command.x, command.y);
+      context.bezierCurveTo(first.x, first.y, second.x, second.y, end.x, end.y);
+    } else {
+      const point = at(command.x, command.y);
+      if (command.type === 'M') {
+        context.moveTo(point.x, point.y);
+      } else {
+        context.lineTo(point.x, point.y);
+      }
+    }
+  });
+}
+
+function drawLeaf(context: CanvasRenderingContext2D, scene: DoorScene, door: DrawnDoor, angle: number) {
+  const { design } = door;
+  const radians = (angle * Math.PI) / 180;
+  // Past square the back face is the one showing.
+  const facing = Math.cos(radians) >= 0 ? 1 : -1;
+  const offset = (facing * DEPTH) / 2;
+  const normal = { x: -Math.sin(radians) * facing, z: Math.cos(radians) * facing };
+  const light = Math.max(0, normal.x * LIGHT.x + normal.z * LIGHT.z) / REST_LIGHT;
+  const fillLight = 0.55 + 0.45 * light;
+  // Board units per CSS pixel, so strokes keep the SVG renderer's weight.
+  const strokeScale = scene.width / BOARD_WIDTH;
+
+  const stroke = (d: string, color: string, width: number) => {
+    traceLeafPath(context, scene, angle, offset, drawnPath(door, d));
+    context.strokeStyle = color;
+    context.lineWidth = width * strokeScale;
+    context.stroke();
+  };
+
+  const fill = (d: string, color: string) => {
+    traceLeafPath(context, scene, angle, offset, drawnPath(door, d));
+    context.fillStyle = color;
+    context.fill();
+  };
+
+  context.save();
+  context.lineJoin = 'round';
+  context.lineCap = 'round';
+
+  drawLeafEdge(context, scene, angle, fillLight, design.ink);
+
+  fill(design.outline, rgb(SOLID_FILL, fillLight));
+  context.globalAlpha = 0.5 + 0.5 * Math.min(light, 1);
+  stroke(design.outline, design.ink, 3.55);
+  stroke(design.inset, design.faint, 1.85);
+  design.panels.forEach((panel) => {
+    fill(panel.face, rgb(PANEL_FILL, fillLight));
+    stroke(panel.face, design.ink, 3.35);
+    stroke(panel.inner, design.faint, 1.85);
+  });
+  design.details.forEach((detail) => stroke(detail, design.ink, 1.2));
+  if (design.plate) {
+    fill(design.plate, rgb(PANEL_FILL, fillLight));
+    stroke(design.plate, design.ink, 2.2);
+  }
+  if (design.plateEcho) {
+    stroke(design.plateEcho, design.faint, 1.35);
+  }
+  if (design.keyhole) {
+    fill(design.keyhole, design.ink);
+  }
+
+  drawKnob(context, scene, design, angle, facing);
+  context.restore();
+}
+
+// The latch edge, seen once the leaf has turned far enough to show it.
+function drawLeafEdge(
+  context: CanvasRenderingContext2D,
+  scene: DoorScene,
+  angle: number,
+  fillLight: number,
+  ink: string
+) {
+  if (angle < 2 || angle > OPEN_ANGLE - 2) {
+    return;
+  }
+
+  const edge = 0.931 * BOARD_WIDTH;
+  const corners = [
+    projectLeafPoint(scene, angle, edge, 12, DEPTH / 2),
+    projectLeafPoint(scene, angle, edge, 12, -DEPTH / 2),
+    projectLeafPoint(scene, angle, edge, 708, -DEPTH / 2),
+    projectLeafPoint(scene, angle, edge, 708, DEPTH / 2),
+  ];
+
+  context.beginPath();
+  corners.forEach(({ x, y }, index) => (index === 0 ? context.moveTo(x, y) : context.lineTo(x, y)));
+  context.closePath();
+  context.fillStyle = rgb(SOLID_FILL, fillLight * 0.8);
+  context.fill();
+  context.strokeStyle = ink;
+  context.lineWidth = 1.5;
+  context.stroke();
+}
+
+function drawKnob(
+  context: CanvasRenderingContext2D,
+  scene: DoorScene,
+  design: DoorDesign,
+  angle: number,
+  facing: number
+) {
+  const center = projectLeafPoint(
+    scene,
+    angle,
+    design.knobX * BOARD_WIDTH,
+    design.knobY * BOARD_HEIGHT,
+    facing * (DEPTH / 2 + KNOB_THROW)
+  );
+  const radius = (design.knob === 'ring' ? 1.5 : 1) * KNOB_RADIUS * scene.width * center.scale;
+
+  context.globalAlpha = 1;
+  context.beginPath();
+  if (design.knob === 'square') {
+    context.rect(center.x - radius, center.y - radius, radius * 2, radius * 2);
+  } else {
+    context.arc(center.x, center.y, radius, 0, Math.PI * 2);
+  }
+  if (design.knob !== 'ring') {
+    const shine = context.createRadialGradient(
+      center.x + radius * 0.35, center.y - radius * 0.35, radius * 0.1,
+      center.x, center.y, radius
+    );
+    shine.addColorStop(0, '#3a3935');
+    shine.addColorStop(1, '#11110f');
+    context.fillStyle = shine;
+    context.fill();
+  }
+  context.strokeStyle = design.ink;
+  context.lineWidth = 1.3;
+  context.stroke();
+}
+
+// A leaf swung out toward the light throws a shadow across the doorway from
+// the hinge side, deepest when the leaf stands square to the wall.
+function drawDoorwayShadow(context: CanvasRenderingContext2D, scene: DoorScene, angle: number) {
+  const reach = Math.sin((angle * Math.PI) / 180);
+  if (reach <= 0.01) {
+    return;
+  }
+
+  const hinge = HINGE_X * scene.width;
+  const right = hinge + (0.931 - HINGE_X) * scene.width * reach * 0.55;
+  const shadow = context.createLinearGradient(hinge, 0, right, 0);
+  shadow.addColorStop(0, `rgba(0, 0, 0, ${0.55 * reach})`);
+  shadow.addColorStop(1, 'rgba(0, 0, 0, 0)');
+  context.fillStyle = shadow;
+  context.fillRect(hinge, 0.015 * scene.height, right - hinge, 0.97 * scene.height);
+}
+
+// The door at one moment, laid out the way the CSS renderer stacks its
+// layers: the waiting door, the open stack, then the leaves in flight.
+export function sceneFromLeaves({ count, flights }: HingedLeafState): Omit<DoorScene, 'width' | 'height'> {
+  const waitingDoor = count + flights.filter((flight) => flight.origin === 'shut').length + 1;
+  const openDoor = count - flights.filter((flight) => flight.origin === 'open').length;
+
+  return {
+    doorway: findDoorMilestone(waitingDoor - 1) ? null : waitingDoor,
+    open: openDoor > 0 ? openDoor : null,
+    leaves: flights.map(({ leaf, motion }) => ({
+      door: leaf,
+      angle: Math.max(0, Math.min(OPEN_ANGLE, motion.angle)),
+    })),
+  };
+}
+
+export function drawDoorScene(context: CanvasRenderingContext2D, scene: DoorScene) {
+  if (scene.doorway !== null) {
+    drawLeaf(context, scene, drawnDoor(scene.doorway), 0);
+  }
+
+  scene.leaves.forEach(({ angle }) => drawDoorwayShadow(context, scene, angle));
+
+  if (scene.open !== null) {
+    drawLeaf(context, scene, drawnDoor(scene.open), OPEN_ANGLE);
+  }
+
+  paintOrder(scene.leaves).forEach(({ door, angle }) => {
+    drawLeaf(context, scene, drawnDoor(door), angle);
+  });
+}
+
+// Sizes the canvas to its box at the device's pixel ratio and draws the
+// scene with the stage's top-left corner as the origin.
+export function paintDoorCanvas(canvas: HTMLCanvasElement, scene: Omit<DoorScene, 'width' | 'height'>) {
+  const context = canvas.getContext('2d');
+  const stage = canvas.parentElement;
+  if (!context || !stage) {
+    return;
+  }
+
+  const width = stage.clientWidth;
+  const height = stage.clientHeight;
+  const ratio = window.devicePixelRatio || 1;
+  const pixelWidth = Math.round(width * (1 + CANVAS_OVERHANG.x * 2) * ratio);
+  const pixelHeight = Math.round(height * (1 + CANVAS_OVERHANG.y * 2) * ratio);
+  if (canvas.width !== pixelWidth || canvas.height !== pixelHeight) {
+    canvas.width = pixelWidth;
+    canvas.height = pixelHeight;
+  }
+
+  context.setTransform(1, 0, 0, 1, 0, 0);
+  context.clearRect(0, 0, canvas.width, canvas.height);
+  context.setTransform(ratio, 0, 0, ratio, width * CANVAS_OVERHANG.x * ratio, height * CANVAS_OVERHANG.y * ratio);
+  drawDoorScene(context, { ...scene, width, height });
+}
@@ -0,0 +1,33 @@
+import { OPEN_ANGLE } from './doorPhysics';
+
+const HAPTICS_STORAGE_KEY = 'endless-door:haptics';
+
+export const hapticsSupported = () =>
+  typeof navigator !== 'undefined' && typeof navigator.vibrate === 'function';
+
+// A tap through the Vibration API as a leaf latches, on devices that have
+// one. A door swung back against the wall knocks longer than one falling shut.
+export function vibrateLatch(angle: number) {
+  if (!hapticsSupported()) {
+    return;
+  }
+
+  navigator.vibrate(angle >= OPEN_ANGLE ? 14 : 8);
+}
+
+// Haptics have their own switch, apart from the sound: on unless turned off.
+export function loadHaptics() {
+  try {
+    return window.localStorage.getItem(HAPTICS_STORAGE_KEY) !== 'false';
+  } catch {
+    return true;
+  }
+}
+
+export function saveHaptics(haptics: boolean) {
+  try {
+    window.localStorage.setItem(HAPTICS_STORAGE_KEY, String(haptics));
+  } catch {
+    // Without storage haptics are just on again next time.
+  }
+}
@@ -0,0 +1,68 @@
+import {
+  isLeafSettled,
+  OPEN_ANGLE,
+  pointerVelocity,
+  releasedDoors,
+  releaseTarget,
+  stepLeaf,
+  trackPointer,
+} from './doorPhysics';
+
+test('swings a leaf from rest to open and settles', () => {
+  const halfway = stepLeaf({ angle: 0, velocity: 0 }, OPEN_ANGLE, 0.16);
+  expect(halfway.angle).toBeCloseTo(118.862, 3);
+  expect(isLeafSettled(halfway, OPEN_ANGLE)).toBe(false);
+
+  const done = stepLeaf(halfway, OPEN_ANGLE, 0.48);
+  expect(isLeafSettled(done, OPEN_ANGLE)).toBe(true);
+});
+
+test('gives the same motion however the frames are spaced', () => {
+  const oneFrame = stepLeaf({ angle: 20, velocity: 300 }, OPEN_ANGLE, 0.25);
+  let manyFrames = { angle: 20, velocity: 300 };
+  for (let frame = 0; frame < 15; frame += 1) {
+    manyFrames = stepLeaf(manyFrames, OPEN_ANGLE, 1 / 60);
+  }
+
+  expect(manyFrames).toEqual(oneFrame);
+});
+
+test('bounces a hard fling off the open stop', () => {
+  let motion = { angle: 150, velocity: 2400 };
+  let bounced = false;
+
+  for (let frame = 0; frame < 30; frame += 1) {
+    motion = stepLeaf(motion, OPEN_ANGLE, 1 / 60);
+    expect(motion.angle).toBeLessThanOrEqual(OPEN_ANGLE);
+    bounced = bounced || motion.velocity < 0;
+  }
+
+  expect(bounced).toBe(true);
+  expect(isLeafSettled(motion, OPEN_ANGLE)).toBe(true);
+});
+
+test('lets a quick flick open the door from a short drag', () => {
+  expect(releaseTarget({ angle: 12, velocity: 0 })).toBe(0);
+  expect(releaseTarget({ angle: 12, velocity: 760 })).toBe(OPEN_ANGLE);
+  expect(releaseTarget({ angle: 120, velocity: -900 })).toBe(0);
+  expect(releaseTarget({ angle: 120, velocity: 0 })).toBe(OPEN_ANGLE);
+});
+
+test('carries a long or fast release through further doors', () => {
+  expect(releasedDoors({ angle: 150, velocity: 0 })).toBe(0);
+  expect(releasedDoors({ angle: 400, velocity: 0 })).toBe(1);
+  expect(releasedDoors({ angle: 160, velocity: 2000 })).toBe(2);
+  expect(releasedDoors({ angle: 30, velocity: -300 })).toBe(0);
+  expect(releasedDoors({ angle: -120, velocity: -900 })).toBe(-2);
+});
+
+test('measures pointer velocity over the most recent samples', () => {
+  let samples = [{ time: 0, x: 400 }];
+  samples = trackPointer(samples, { time: 200, x: 390 });
+  samples = trackPointer(samples, { time: 240, x: 330 });
+  samples = trackPointer(samples, { time: 260, x: 300 });
+
+  expect(samples.map(({ time }) => time)).toEqual([200, 240, 260]);
+  expect(pointerVelocity(samples)).toBeCloseTo(-1500);
+  expect(pointerVelocity(samples.slice(0, 1))).toBe(0);
+});
@@ -0,0 +1,98 @@
+// Motion for the Endless Door leaf: a damped spring pulling the leaf toward
+// its target, with the open and closed positions as hard stops it bounces off.
+// Angles are in degrees (0 is shut, OPEN_ANGLE is flat open) and velocities in
+// degrees per second.
+
+export const OPEN_ANGLE = 180;
+export const SETTLE_EPSILON = 0.6;
+
+// Critically damped at 14 rad/s: a full swing from rest takes about 640ms.
+const STIFFNESS = 196;
+const DAMPING = 28;
+// Fixed steps keep a run identical however the frames happen to be spaced,
+// as long as the time too short for a step is carried into the next frame.
+const STEP_SECONDS = 1 / 240;
+// A backgrounded tab can hand over a very late frame; don't replay all of it.
+const MAX_FRAME_SECONDS = 1;
+const STOP_RESTITUTION = 0.32;
+const SETTLE_VELOCITY = 12;
+// How far ahead a release is projected when deciding which way it falls.
+const RELEASE_PROJECTION_SECONDS = 0.22;
+const VELOCITY_WINDOW_MS = 90;
+
+export type LeafMotion = {
+  angle: number;
+  velocity: number;
+};
+
+export type PointerSample = {
+  time: number;
+  x: number;
+};
+
+// Whole steps in `seconds`; the slack absorbs rounding, so that four 240th
+// parts of 1/60 count as four.
+const leafSteps = (seconds: number) =>
+  Math.floor(Math.min(Math.max(seconds, 0), MAX_FRAME_SECONDS) / STEP_SECONDS + 1e-6);
+
+// What stepLeaf leaves of `seconds`, to add to the next frame's. Nothing is
+// kept from a frame late enough to be cut short.
+export const unspentLeafSeconds = (seconds: number) => (seconds > MAX_FRAME_SECONDS
+  ? 0
+  : Math.max(seconds - leafSteps(seconds) * STEP_SECONDS, 0));
+
+export function stepLeaf(motion: LeafMotion, targetAngle: number, seconds: number): LeafMotion {
+  const steps = leafSteps(seconds);
+  let { angle, velocity } = motion;
+
+  for (let step = 0; step < steps; step += 1) {
+    velocity += (STIFFNESS * (targetAngle - angle) - DAMPING * velocity) * STEP_SECONDS;
+    angle += velocity * STEP_SECONDS;
+
+    if (angle > OPEN_ANGLE) {
+      angle = OPEN_ANGLE;
+      velocity = -velocity * STOP_RESTITUTION;
+    } else if (angle < 0) {
+      angle = 0;
+      velocity = -velocity * STOP_RESTITUTION;
+    }
+  }
+
+  return { angle, velocity };
+}
+
+export const isLeafSettled = ({ angle, velocity }: LeafMotion, targetAngle: number) =>
+  Math.abs(targetAngle - angle) <= SETTLE_EPSILON && Math.abs(velocity) <= SETTLE_VELOCITY;
+
+const projectRelease = ({ angle, velocity }: LeafMotion) =>
+  angle + velocity * RELEASE_PROJECTION_SECONDS;
+
+// Where a released leaf comes to rest: a quick flick carries it past halfway
+// even from a short drag.
+export const releaseTarget = (motion: LeafMotion) =>
+  projectRelease(motion) >= OPEN_ANGLE / 2 ? OPEN_ANGLE : 0;
+
+// Further doors a release carries through, negative when closing. `angle` may
+// run past the stops: a drag 400° to the left has already gone through two
+// doors' worth of swing.
+export function releasedDoors(motion: LeafMotion) {
+  const projected = projectRelease(motion);
+  const doors = Math.floor(Math.abs(projected - OPEN_ANGLE / 2) / OPEN_ANGLE);
+  return projected < OPEN_ANGLE / 2 && doors > 0 ? -doors : doors;
+}
+
+export function trackPointer(samples: PointerSample[], sample: PointerSample) {
+  return [...samples, sample].filter(({ time }) => sample.time - time <= VELOCITY_WINDOW_MS);
+}
+
+// Horizontal pointer speed in pixels per second over the recent samples.
+export function pointerVelocity(samples: PointerSample[]) {
+  if (samples.length < 2) {
+    return 0;
+  }
+
+  const first = samples[0];
+  const last = samples[samples.length - 1];
+  const elapsed = last.time - first.time;
+  return elapsed > 0 ? ((last.x - first.x) / elapsed) * 1000 : 0;
+}
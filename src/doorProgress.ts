@@ -0,0 +1,88 @@
+import { searchFromParams } from './router';
+
+// How many doors a visitor has opened survives reloads in localStorage and
+// travels in links as `?n=`, so /door/?n=42 opens straight to door 42. The
+// milestones they have found behind doors are kept alongside, on this device
+// only.
+
+const STORAGE_KEY = 'endless-door:opened-count';
+const FOUND_STORAGE_KEY = 'endless-door:found-milestones';
+const FURTHEST_STORAGE_KEY = 'endless-door:furthest-count';
+const COUNT_PARAM = 'n';
+
+export const MAX_OPENED_COUNT = 1_000_000;
+
+export function parseOpenedCount(value: string | null | undefined) {
+  if (!value || !/^\d+$/.test(value)) {
+    return null;
+  }
+
+  return Math.min(Number(value), MAX_OPENED_COUNT);
+}
+
+export const openedCountFromSearch = (search: string) =>
+  parseOpenedCount(new URLSearchParams(search).get(COUNT_PARAM));
+
+export function searchWithOpenedCount(search: string, count: number) {
+  const params = new URLSearchParams(search);
+  if (count > 0) {
+    params.set(COUNT_PARAM, String(count));
+  } else {
+    params.delete(COUNT_PARAM);
+  }
+
+  return searchFromParams(params);
+}
+
+export function loadOpenedCount() {
+  try {
+    return parseOpenedCount(window.localStorage.getItem(STORAGE_KEY));
+  } catch {
+    return null;
+  }
+}
+
+export function saveOpenedCount(count: number) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, String(count));
+  } catch {
+    // Storage can be disabled or full; the count just won't outlive the page.
+  }
+}
+
+export function loadFoundMilestones(): number[] {
+  try {
+    const found: unknown = JSON.parse(window.localStorage.getItem(FOUND_STORAGE_KEY) ?? '[]');
+    return Array.isArray(found)
+      ? found.filter((door): door is number => Number.isInteger(door) && door > 0)
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveFoundMilestones(doors: number[]) {
+  try {
+    window.localStorage.setItem(FOUND_STORAGE_KEY, JSON.stringify(doors));
+  } catch {
+    // As with the count, finds just won't be remembered.
+  }
+}
+
+// The furthest door opened on this device, for the End key. Only doors
+// actually swung open count; a jump or a shared link doesn't.
+export function loadFurthestCount() {
+  try {
+    return parseOpenedCount(window.localStorage.getItem(FURTHEST_STORAGE_KEY)) ?? 0;
+  } catch {
+    return 0;
+  }
+}
+
+export function saveFurthestCount(count: number) {
+  try {
+    window.localStorage.setItem(FURTHEST_STORAGE_KEY, String(count));
+  } catch {
+    // Without storage End only reaches as far as this visit has gone.
+  }
+}
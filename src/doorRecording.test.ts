@@ -0,0 +1,46 @@
+import { OPEN_ANGLE } from './doorPhysics';
+import { DoorRecording, MAX_RECORDING_SECONDS, replayRecording } from './doorRecording';
+
+const recordingOf = (events: DoorRecording['events'], stoppedAt: number, count = 0): DoorRecording => ({
+  count,
+  startedAt: 0,
+  stoppedAt,
+  events,
+});
+
+test('replays a door opening at a steady frame rate until it comes to rest', () => {
+  const frames = replayRecording(recordingOf([{ at: 1000, event: { type: 'open' } }], 1200), 20);
+  const angles = frames.map((state) => state.flights[0]?.motion.angle ?? null);
+
+  expect(frames[0].count).toBe(0);
+  expect(frames[frames.length - 1].count).toBe(1);
+  expect(frames[frames.length - 1].flights).toEqual([]);
+  const swing = angles.filter((angle): angle is number => angle !== null);
+  expect(swing.length).toBeGreaterThan(6);
+  expect(swing.slice(1).every((angle, index) => angle >= swing[index])).toBe(true);
+  expect(swing[swing.length - 1]).toBeLessThanOrEqual(OPEN_ANGLE);
+});
+
+test('gives the same frames on every replay', () => {
+  const events: DoorRecording['events'] = [
+    { at: 300, event: { type: 'open' } },
+    { at: 450, event: { type: 'open' } },
+  ];
+  const first = replayRecording(recordingOf(events, 900), 30);
+  const second = replayRecording(recordingOf(events, 900), 30);
+
+  expect(second.map((state) => state.flights.map(({ motion }) => motion.angle)))
+    .toEqual(first.map((state) => state.flights.map(({ motion }) => motion.angle)));
+  expect(first[first.length - 1].count).toBe(2);
+});
+
+test('starts from the doors already open and stops at the time limit', () => {
+  const frames = replayRecording(
+    recordingOf([{ at: 0, event: { type: 'close' } }], MAX_RECORDING_SECONDS * 5000, 7),
+    20
+  );
+
+  expect(frames[0].flights[0]).toMatchObject({ leaf: 7, mode: 'closing' });
+  expect(frames[frames.length - 1].count).toBe(6);
+  expect(frames.length).toBeLessThanOrEqual((MAX_RECORDING_SECONDS + 2) * 20 + 1);
+});
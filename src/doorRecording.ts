@@ -0,0 +1,234 @@
+import { CANVAS_OVERHANG, drawDoorScene, sceneFromLeaves } from './doorCanvas';
+import { MAX_OPENED_COUNT } from './doorProgress';
+import { createGifWriter } from './gifEncoder';
+import {
+  DEFAULT_HINGED_LEAF_CONFIG,
+  HingedLeafEvent,
+  hingedLeafReducer,
+  HingedLeafState,
+  initialHingedLeafState,
+  isLeafMoving,
+} from './hingedLeaf';
+import { findDoorMilestone } from './portfolio/content';
+
+// A stretch of the Endless Door is recorded as the events that drove it, not
+// as pictures. Exporting replays them through the same reducer and springs at
+// a steady frame rate, so the file is smooth however the live frames went,
+// and draws every frame with the canvas renderer's own art.
+
+export type RecordedEvent = {
+  at: number;
+  event: HingedLeafEvent;
+};
+
+export type DoorRecording = {
+  // Doors open when recording started.
+  count: number;
+  startedAt: number;
+  stoppedAt: number;
+  events: RecordedEvent[];
+};
+
+export type ExportFormat = 'gif' | 'webm';
+
+export const MAX_RECORDING_SECONDS = 20;
+
+// GIF frame delays are whole hundredths of a second, so 20 frames a second.
+const FRAME_RATES: Record<ExportFormat, number> = { gif: 20, webm: 30 };
+// Quiet kept before the first press, and time allowed after the last for
+// leaves still swinging to come to rest.
+const LEAD_IN_MS = 250;
+const SETTLE_MS = 2000;
+
+// The door in an exported frame, with the same room around it as the live
+// canvas has on its left, above and below for a leaf swung open.
+const DOOR_WIDTH = 180;
+const DOOR_HEIGHT = 360;
+const DOOR_LEFT = DOOR_WIDTH * CANVAS_OVERHANG.x;
+const DOOR_TOP = DOOR_HEIGHT * CANVAS_OVERHANG.y;
+export const FRAME_WIDTH = DOOR_LEFT + DOOR_WIDTH * 1.25;
+export const FRAME_HEIGHT = DOOR_TOP * 2 + DOOR_HEIGHT;
+
+// Same colours as DoorPage.css.
+const BACKGROUND = '#0a0a0a';
+const INK = '#e9e7df';
+const SOFT_INK = 'rgba(233, 231, 223, 0.62)';
+const FAINT_INK = 'rgba(233, 231, 223, 0.44)';
+
+const REPLAY_CONFIG = { ...DEFAULT_HINGED_LEAF_CONFIG, maxCount: MAX_OPENED_COUNT };
+
+// The door at each frame of the export.
+export function replayRecording(recording: DoorRecording, fps: number) {
+  const firstAt = recording.events[0]?.at ?? recording.startedAt;
+  const start = Math.max(recording.startedAt, firstAt - LEAD_IN_MS);
+  const end = Math.min(recording.stoppedAt, start + MAX_RECORDING_SECONDS * 1000);
+  const events = recording.events.filter(({ at }) => at <= end);
+  const frames: HingedLeafState[] = [];
+  let state = initialHingedLeafState(recording.count, REPLAY_CONFIG);
+  let next = 0;
+
+  for (let now = start; now <= end + SETTLE_MS; now += 1000 / fps) {
+    if (now > end && !isLeafMoving(state) && state.pointer === null) {
+      break;
+    }
+
+    while (next < events.length && events[next].at <= now) {
+      state = hingedLeafReducer(state, events[next].event, REPLAY_CONFIG);
+      next += 1;
+    }
+    state = hingedLeafReducer(state, { type: 'tick', now }, REPLAY_CONFIG);
+    frames.push(state);
+  }
+
+  return frames;
+}
+
+function wrapText(context: CanvasRenderingContext2D, text: string, width: number) {
+  return text.split(' ').reduce<string[]>((lines, word) => {
+    const line = lines[lines.length - 1];
+    if (line && context.measureText(`${line} ${word}`).width <= width) {
+      lines[lines.length - 1] = `${line} ${word}`;
+    } else {
+      lines.push(word);
+    }
+    return lines;
+  }, []);
+}
+
+// What the page shows in the doorway behind a milestone, laid out as
+// `.door-reveal` is: a faint frame with the drawing over the words.
+function drawReveal(context: CanvasRenderingContext2D, door: number) {
+  const milestone = findDoorMilestone(door);
+  if (!milestone) {
+    return;
+  }
+
+  const left = DOOR_WIDTH * 0.088;
+  const top = DOOR_HEIGHT * 0.016;
+  const width = DOOR_WIDTH * (1 - 0.088 - 0.074);
+  const height = DOOR_HEIGHT * (1 - 0.016 - 0.014);
+  context.strokeStyle = FAINT_INK;
+  context.lineWidth = 1;
+  context.strokeRect(left, top, width, height);
+
+  context.font = '10px -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
+  const lines = wrapText(context, milestone.text, width * 0.76);
+  const lineHeight = 15;
+  const drawingSize = milestone.drawing ? width * 0.46 : 0;
+  const gap = milestone.drawing ? 16 : 0;
+  let y = top + (height - drawingSize - gap - lines.length * lineHeight) / 2;
+
+  if (milestone.drawing && typeof Path2D !== 'undefined') {
+    context.save();
+    context.translate(left + (width - drawingSize) / 2, y);
+    context.scale(drawingSize / 120, drawingSize / 120);
+    context.strokeStyle = INK;
+    context.lineWidth = 2.2;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.stroke(new Path2D(milestone.drawing));
+    context.restore();
+  }
+  y += drawingSize + gap;
+
+  context.fillStyle = SOFT_INK;
+  context.textAlign = 'center';
+  context.textBaseline = 'top';
+  lines.forEach((line, index) => {
+    context.fillText(line, left + width / 2, y + index * lineHeight + 2);
+  });
+}
+
+export function drawRecordingFrame(context: CanvasRenderingContext2D, state: HingedLeafState) {
+  context.setTransform(1, 0, 0, 1, 0, 0);
+  context.fillStyle = BACKGROUND;
+  context.fillRect(0, 0, FRAME_WIDTH, FRAME_HEIGHT);
+  context.translate(DOOR_LEFT, DOOR_TOP);
+
+  const scene = { ...sceneFromLeaves(state), width: DOOR_WIDTH, height: DOOR_HEIGHT };
+  if (scene.doorway === null) {
+    const opening = state.flights.filter((flight) => flight.origin === 'shut').length;
+    drawReveal(context, state.count + opening);
+  }
+  drawDoorScene(context, scene);
+}
+
+function frameCanvas() {
+  const canvas = document.createElement('canvas');
+  canvas.width = FRAME_WIDTH;
+  canvas.height = FRAME_HEIGHT;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('This browser cannot draw the door to a canvas.');
+  }
+
+  return { canvas, context };
+}
+
+// Lets the page paint between batches of frames during a long export.
+const nextTask = () => new Promise((resolve) => window.setTimeout(resolve, 0));
+
+export async function exportGif(recording: DoorRecording) {
+  const fps = FRAME_RATES.gif;
+  const { context } = frameCanvas();
+  const gif = createGifWriter(FRAME_WIDTH, FRAME_HEIGHT, Math.round(100 / fps));
+  const frames = replayRecording(recording, fps);
+
+  for (let index = 0; index < frames.length; index += 1) {
+    drawRecordingFrame(context, frames[index]);
+    gif.addFrame(context.getImageData(0, 0, FRAME_WIDTH, FRAME_HEIGHT).data);
+    if (index % 8 === 7) {
+      await nextTask();
+    }
+  }
+
+  return new Blob(gif.finish(), { type: 'image/gif' });
+}
+
+const webmType = () => ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm']
+  .find((type) => MediaRecorder.isTypeSupported(type));
+
+export function webmSupported() {
+  return typeof MediaRecorder !== 'undefined'
+    && typeof HTMLCanvasElement.prototype.captureStream === 'function'
+    && webmType() !== undefined;
+}
+
+// MediaRecorder stamps frames as they're captured, so this plays the replay
+// in real time; the frames themselves still come from the steady replay.
+export function exportWebm(recording: DoorRecording) {
+  const fps = FRAME_RATES.webm;
+  const { canvas, context } = frameCanvas();
+  const mimeType = webmType();
+  if (!mimeType) {
+    return Promise.reject(new Error('This browser cannot record WebM video.'));
+  }
+
+  const frames = replayRecording(recording, fps);
+  const stream = canvas.captureStream(fps);
+  const recorder = new MediaRecorder(stream, { mimeType });
+  const chunks: Blob[] = [];
+
+  return new Promise<Blob>((resolve, reject) => {
+    recorder.addEventListener('dataavailable', (event) => chunks.push(event.data));
+    recorder.addEventListener('stop', () => {
+      stream.getTracks().forEach((track) => track.stop());
+      resolve(new Blob(chunks, { type: 'video/webm' }));
+    });
+    recorder.addEventListener('error', () => reject(new Error('The video recording failed.')));
+
+    drawRecordingFrame(context, frames[0] ?? initialHingedLeafState(recording.count));
+    recorder.start();
+    let frame = 1;
+    const timer = window.setInterval(() => {
+      if (frame >= frames.length) {
+        window.clearInterval(timer);
+        recorder.stop();
+        return;
+      }
+
+      drawRecordingFrame(context, frames[frame]);
+      frame += 1;
+    }, 1000 / fps);
+  });
+}
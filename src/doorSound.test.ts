@@ -0,0 +1,167 @@
+import { OPEN_ANGLE } from './doorPhysics';
+import { createDoorSound, doorPitch } from './doorSound';
+
+class FakeParam {
+  value = 0;
+  targets: number[] = [];
+
+  setTargetAtTime(value: number) {
+    this.targets.push(value);
+  }
+
+  cancelScheduledValues() {}
+
+  setValueAtTime(value: number) {
+    this.value = value;
+  }
+
+  exponentialRampToValueAtTime() {}
+}
+
+class FakeNode {
+  type = '';
+  buffer: unknown = null;
+  frequency = new FakeParam();
+  gain = new FakeParam();
+  Q = new FakeParam();
+  connect = jest.fn();
+  start = jest.fn();
+  stop = jest.fn();
+}
+
+class FakeAudioContext {
+  static instances: FakeAudioContext[] = [];
+
+  state = 'suspended';
+  currentTime = 0;
+  sampleRate = 8000;
+  destination = {};
+  oscillators: FakeNode[] = [];
+  sources: FakeNode[] = [];
+  resume = jest.fn(() => Promise.resolve());
+  suspend = jest.fn(() => Promise.resolve());
+  close = jest.fn(() => Promise.resolve());
+
+  constructor() {
+    FakeAudioContext.instances.push(this);
+  }
+
+  createOscillator() {
+    const node = new FakeNode();
+    this.oscillators.push(node);
+    return node;
+  }
+
+  createBufferSource() {
+    const node = new FakeNode();
+    this.sources.push(node);
+    return node;
+  }
+
+  createGain() {
+    return new FakeNode();
+  }
+
+  createBiquadFilter() {
+    return new FakeNode();
+  }
+
+  createBuffer(channels: number, length: number) {
+    const data = new Float32Array(length);
+    return { getChannelData: () => data };
+  }
+}
+
+let reducedMotion = false;
+
+beforeEach(() => {
+  FakeAudioContext.instances = [];
+  reducedMotion = false;
+  window.AudioContext = FakeAudioContext as unknown as typeof AudioContext;
+  window.matchMedia = ((query: string) => ({
+    matches: reducedMotion && query.includes('reduce'),
+  })) as unknown as typeof window.matchMedia;
+});
+
+afterEach(() => {
+  const globals = window as Partial<Window & typeof globalThis>;
+  delete globals.AudioContext;
+  delete globals.matchMedia;
+});
+
+test('waits for a gesture before starting audio', () => {
+  const sound = createDoorSound();
+  sound.creak({ angle: 90, velocity: 400 }, 1);
+  sound.latch(1, OPEN_ANGLE);
+
+  expect(FakeAudioContext.instances).toHaveLength(0);
+
+  sound.unlock();
+
+  expect(FakeAudioContext.instances).toHaveLength(1);
+  expect(FakeAudioContext.instances[0].resume).toHaveBeenCalled();
+});
+
+test('creaks louder and higher the faster the leaf swings', () => {
+  const sound = createDoorSound();
+  sound.unlock();
+  sound.creak({ angle: 90, velocity: 60 }, 1);
+  sound.creak({ angle: 90, velocity: 600 }, 1);
+
+  const [creak] = FakeAudioContext.instances[0].oscillators;
+  const [slowPitch, fastPitch] = creak.frequency.targets;
+  expect(fastPitch).toBeGreaterThan(slowPitch);
+  expect(creak.start).toHaveBeenCalledTimes(1);
+});
+
+test('gives each door its own hinge', () => {
+  const pitches = Array.from({ length: 50 }, (_, index) => doorPitch(index + 1));
+
+  expect(doorPitch(12)).toBe(doorPitch(12));
+  expect(new Set(pitches).size).toBe(pitches.length);
+  pitches.forEach((pitch) => {
+    expect(pitch).toBeGreaterThanOrEqual(2 ** -0.25);
+    expect(pitch).toBeLessThanOrEqual(2 ** 0.25);
+  });
+});
+
+test('clicks the latch at either stop', () => {
+  const sound = createDoorSound();
+  sound.unlock();
+  sound.latch(3, OPEN_ANGLE);
+  sound.latch(3, 0);
+
+  const audio = FakeAudioContext.instances[0];
+  expect(audio.sources).toHaveLength(2);
+  expect(audio.oscillators.map((knock) => knock.frequency.value)).toEqual([
+    85 * doorPitch(3),
+    120 * doorPitch(3),
+  ]);
+});
+
+test('stays silent while muted', () => {
+  const sound = createDoorSound(true);
+  sound.unlock();
+
+  expect(FakeAudioContext.instances).toHaveLength(0);
+
+  sound.setMuted(false);
+  sound.unlock();
+  sound.setMuted(true);
+  sound.latch(1, 0);
+
+  expect(FakeAudioContext.instances[0].suspend).toHaveBeenCalled();
+  expect(FakeAudioContext.instances[0].sources).toHaveLength(0);
+});
+
+test('keeps the latch but drops the creak under reduced motion', () => {
+  reducedMotion = true;
+  const sound = createDoorSound();
+  sound.unlock();
+  sound.creak({ angle: 90, velocity: 600 }, 1);
+  sound.latch(1, OPEN_ANGLE);
+
+  const audio = FakeAudioContext.instances[0];
+  expect(audio.oscillators).toHaveLength(1);
+  expect(audio.sources).toHaveLength(1);
+});
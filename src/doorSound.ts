@@ -0,0 +1,206 @@
+import { LeafMotion, OPEN_ANGLE } from './doorPhysics';
+
+// Sound for the Endless Door, synthesised with Web Audio: a hinge creak while
+// a leaf swings and a latch when it reaches either stop. No AudioContext exists
+// until `unlock` runs from a press or click, as browsers expect.
+
+const MUTED_STORAGE_KEY = 'endless-door:muted';
+
+const CREAK_VOLUME = 0.05;
+const LATCH_VOLUME = 0.25;
+// Leaf speed, in degrees per second, at which the creak is at its loudest.
+const LOUDEST_VELOCITY = 720;
+const SMOOTHING_SECONDS = 0.04;
+// A creak dies away unless the next frame renews it, so a leaf held still
+// under the pointer goes quiet by itself.
+const CREAK_HOLD_SECONDS = 0.08;
+const LATCH_SECONDS = 0.12;
+
+export type DoorSound = {
+  unlock: () => void;
+  creak: (motion: LeafMotion, door: number) => void;
+  quiet: () => void;
+  latch: (door: number, angle: number) => void;
+  setMuted: (muted: boolean) => void;
+  close: () => void;
+};
+
+type CreakVoice = {
+  source: OscillatorNode;
+  filter: BiquadFilterNode;
+  gain: GainNode;
+};
+
+type AudioWindow = Window & {
+  webkitAudioContext?: typeof AudioContext;
+};
+
+const audioContextClass = () => {
+  if (typeof window === 'undefined') {
+    return undefined;
+  }
+
+  return window.AudioContext ?? (window as AudioWindow).webkitAudioContext;
+};
+
+const prefersReducedMotion = () =>
+  window.matchMedia?.('(prefers-reduced-motion: reduce)').matches ?? false;
+
+// Every door has its own hinge: up to three semitones either side.
+export function doorPitch(door: number) {
+  const spread = (Math.imul(door, 0x85ebca6b) >>> 0) / 2 ** 32 - 0.5;
+  return 2 ** (spread / 2);
+}
+
+export function createDoorSound(muted = false): DoorSound {
+  let context: AudioContext | null = null;
+  let creakVoice: CreakVoice | null = null;
+  let noise: AudioBuffer | null = null;
+  let isMuted = muted;
+
+  const startCreak = (audio: AudioContext): CreakVoice => {
+    const source = audio.createOscillator();
+    source.type = 'sawtooth';
+    const filter = audio.createBiquadFilter();
+    filter.type = 'bandpass';
+    filter.Q.value = 9;
+    const gain = audio.createGain();
+    gain.gain.value = 0;
+
+    source.connect(filter);
+    filter.connect(gain);
+    gain.connect(audio.destination);
+    source.start();
+    return { source, filter, gain };
+  };
+
+  const noiseBuffer = (audio: AudioContext) => {
+    if (!noise) {
+      noise = audio.createBuffer(1, Math.ceil(audio.sampleRate * LATCH_SECONDS), audio.sampleRate);
+      const samples = noise.getChannelData(0);
+      for (let index = 0; index < samples.length; index += 1) {
+        samples[index] = Math.random() * 2 - 1;
+      }
+    }
+
+    return noise;
+  };
+
+  const quiet = () => {
+    if (context && creakVoice) {
+      creakVoice.gain.gain.cancelScheduledValues(context.currentTime);
+      creakVoice.gain.gain.setTargetAtTime(0, context.currentTime, SMOOTHING_SECONDS);
+    }
+  };
+
+  return {
+    unlock() {
+      if (isMuted) {
+        return;
+      }
+
+      if (!context) {
+        const AudioContextClass = audioContextClass();
+        if (!AudioContextClass) {
+          return;
+        }
+
+        context = new AudioContextClass();
+      }
+
+      if (context.state === 'suspended') {
+        context.resume().catch(() => undefined);
+      }
+    },
+
+    // Pitched by the door, and by how fast and how far round the leaf is:
+    // hinges complain most when hurried and as they near either stop.
+    creak({ angle, velocity }, door) {
+      // Under reduced motion leaves jump rather than swing, so nothing creaks.
+      if (!context || isMuted || prefersReducedMotion()) {
+        return;
+      }
+
+      creakVoice ??= startCreak(context);
+      const now = context.currentTime;
+      const pitch = doorPitch(door);
+      const speed = Math.min(Math.abs(velocity) / LOUDEST_VELOCITY, 1);
+      const strain = Math.abs(angle / OPEN_ANGLE - 0.5) * 2;
+
+      creakVoice.source.frequency.setTargetAtTime((38 + 30 * speed + 14 * strain) * pitch, now, SMOOTHING_SECONDS);
+      creakVoice.filter.frequency.setTargetAtTime((700 + 900 * speed + 400 * strain) * pitch, now, SMOOTHING_SECONDS);
+      creakVoice.gain.gain.cancelScheduledValues(now);
+      creakVoice.gain.gain.setTargetAtTime(CREAK_VOLUME * speed, now, SMOOTHING_SECONDS);
+      creakVoice.gain.gain.setTargetAtTime(0, now + CREAK_HOLD_SECONDS, SMOOTHING_SECONDS);
+    },
+
+    quiet,
+
+    // A burst of filtered noise for the latch over a low knock for the wood.
+    // A door swung back against the wall knocks lower than one falling shut.
+    latch(door, angle) {
+      if (!context || isMuted) {
+        return;
+      }
+
+      const now = context.currentTime;
+      const pitch = doorPitch(door);
+      const opened = angle >= OPEN_ANGLE;
+
+      const click = context.createBufferSource();
+      click.buffer = noiseBuffer(context);
+      const clickFilter = context.createBiquadFilter();
+      clickFilter.type = 'bandpass';
+      clickFilter.frequency.value = (opened ? 1600 : 2400) * pitch;
+      clickFilter.Q.value = 3;
+
+      const knock = context.createOscillator();
+      knock.type = 'sine';
+      knock.frequency.value = (opened ? 85 : 120) * pitch;
+
+      const gain = context.createGain();
+      gain.gain.setValueAtTime(LATCH_VOLUME, now);
+      gain.gain.exponentialRampToValueAtTime(0.0001, now + LATCH_SECONDS);
+
+      click.connect(clickFilter);
+      clickFilter.connect(gain);
+      knock.connect(gain);
+      gain.connect(context.destination);
+      click.start(now);
+      knock.start(now);
+      click.stop(now + LATCH_SECONDS);
+      knock.stop(now + LATCH_SECONDS);
+    },
+
+    setMuted(nextMuted) {
+      isMuted = nextMuted;
+      if (nextMuted && context) {
+        quiet();
+        context.suspend().catch(() => undefined);
+      }
+    },
+
+    close() {
+      creakVoice?.source.stop();
+      creakVoice = null;
+      context?.close().catch(() => undefined);
+      context = null;
+    },
+  };
+}
+
+export function loadMuted() {
+  try {
+    return window.localStorage.getItem(MUTED_STORAGE_KEY) === 'true';
+  } catch {
+    return false;
+  }
+}
+
+export function saveMuted(muted: boolean) {
+  try {
+    window.localStorage.setItem(MUTED_STORAGE_KEY, String(muted));
+  } catch {
+    // Without storage the door just starts with sound on next time.
+  }
+}
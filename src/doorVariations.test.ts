@@ -0,0 +1,41 @@
+import { doorDesign } from './doorVariations';
+
+const doors = Array.from({ length: 2000 }, (_, index) => doorDesign(index + 1));
+
+test('draws the same door for the same number', () => {
+  expect(doorDesign(500)).toEqual(doorDesign(500));
+  expect(doorDesign(2)).not.toEqual(doorDesign(3));
+});
+
+test('keeps the first door as the original drawing', () => {
+  expect(doorDesign(1)).toMatchObject({
+    shape: 'panelled',
+    outline: 'M30 12 L297 9 L294 711 L28 708 Z',
+    ink: '#e9e7df',
+  });
+  expect(doorDesign(1).panels).toHaveLength(5);
+});
+
+test('mostly draws panelled doors with the occasional rare one', () => {
+  const count = (shape: string) => doors.filter((door) => door.shape === shape).length;
+
+  expect(count('panelled') / doors.length).toBeGreaterThan(0.75);
+  ['arched', 'round', 'trapdoor'].forEach((shape) => {
+    expect(count(shape)).toBeGreaterThan(0);
+    expect(count(shape) / doors.length).toBeLessThan(0.15);
+  });
+});
+
+test('keeps every door on the drawing board', () => {
+  doors.forEach((door) => {
+    const numbers = [door.outline, ...door.panels.map((panel) => panel.face)]
+      .join(' ')
+      .match(/-?\d+(\.\d+)?/g)
+      ?.map(Number) ?? [];
+
+    expect(Math.min(...numbers)).toBeGreaterThanOrEqual(0);
+    expect(Math.max(...numbers)).toBeLessThanOrEqual(720);
+    expect(door.knobX).toBeGreaterThan(0);
+    expect(door.knobY).toBeLessThan(1);
+  });
+});
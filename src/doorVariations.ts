@@ -0,0 +1,301 @@
+import { Random, seededRandom } from './random';
+
+// Every door in the Endless Door sequence is drawn from a generator seeded by
+// its number, so door 500 looks the same on every visit and in every shared
+// `?n=` link. Door 1 is the original drawing.
+
+export type DoorShape = 'panelled' | 'arched' | 'round' | 'trapdoor';
+export type DoorKnob = 'round' | 'square' | 'ring';
+
+export type DoorPanel = {
+  face: string;
+  inner: string;
+};
+
+export type DoorDesign = {
+  door: number;
+  shape: DoorShape;
+  outline: string;
+  inset: string;
+  panels: DoorPanel[];
+  // Extra hand-drawn strokes: planks, straps, the rim of a round door.
+  details: string[];
+  plate: string | null;
+  plateEcho: string | null;
+  keyhole: string | null;
+  knob: DoorKnob;
+  // Knob centre as a share of the door's width and height.
+  knobX: number;
+  knobY: number;
+  ink: string;
+  faint: string;
+};
+
+// The artwork is drawn on a 320×720 board.
+const BOARD_LEFT = 30;
+const BOARD_RIGHT = 296;
+const BOARD_TOP = 11;
+const BOARD_BOTTOM = 709;
+
+const DEFAULT_INK = '#e9e7df';
+const RARE_INKS = ['#efdfbb', '#d5e3ea', '#ecd0c4', '#d8e7cf'];
+
+const CLASSIC_DOOR: DoorDesign = {
+  door: 1,
+  shape: 'panelled',
+  outline: 'M30 12 L297 9 L294 711 L28 708 Z',
+  inset: 'M40 24 L287 23 L284 699 L38 696 Z',
+  panels: [
+    {
+      face: 'M58 78 L263 75 L258 154 L62 156 Z',
+      inner: 'M76 96 L244 94 L242 136 L78 138 Z',
+    },
+    {
+      face: 'M59 208 L262 205 L258 292 L61 290 Z',
+      inner: 'M77 225 L244 223 L241 273 L75 274 Z',
+    },
+    {
+      face: 'M58 342 L264 340 L259 426 L62 424 Z',
+      inner: 'M77 359 L245 358 L242 407 L75 409 Z',
+    },
+    {
+      face: 'M60 477 L261 474 L258 559 L61 558 Z',
+      inner: 'M77 493 L244 491 L241 541 L76 542 Z',
+    },
+    {
+      face: 'M59 608 L263 606 L258 684 L62 682 Z',
+      inner: 'M77 623 L244 622 L241 668 L76 669 Z',
+    },
+  ],
+  details: [],
+  plate: 'M268 430 L287 428 L288 493 L269 492 Z',
+  plateEcho: 'M271 434 L285 433 L285 489 L271 489 Z',
+  keyhole: 'M280 465 C276 465 275 471 278 473 L276 486 H284 L282 473 C285 471 284 465 280 465 Z',
+  knob: 'round',
+  knobX: 0.868,
+  knobY: 0.618,
+  ink: DEFAULT_INK,
+  faint: 'rgba(233, 231, 223, 0.44)',
+};
+
+const pick = <T,>(random: Random, options: readonly T[]) =>
+  options[Math.floor(random() * options.length)];
+
+const between = (random: Random, min: number, max: number) => min + random() * (max - min);
+
+const round = (value: number) => Math.round(value);
+
+type Point = [number, number];
+
+// A four-cornered shape drawn by hand: each corner lands a little off true.
+function quad(random: Random, wobble: number, left: number, top: number, right: number, bottom: number) {
+  const jitter = () => between(random, -wobble, wobble);
+  const corners: Point[] = [
+    [left + jitter(), top + jitter()],
+    [right + jitter(), top + jitter()],
+    [right + jitter(), bottom + jitter()],
+    [left + jitter(), bottom + jitter()],
+  ];
+
+  return `M${corners.map(([x, y]) => `${round(x)} ${round(y)}`).join(' L')} Z`;
+}
+
+function ellipse(random: Random, wobble: number, cx: number, cy: number, rx: number, ry: number) {
+  // Four cubic arcs; 0.55 approximates a quarter circle.
+  const jitter = () => between(random, -wobble, wobble);
+  const k = 0.55;
+  const top: Point = [cx + jitter(), cy - ry + jitter()];
+  const right: Point = [cx + rx + jitter(), cy + jitter()];
+  const bottom: Point = [cx + jitter(), cy + ry + jitter()];
+  const left: Point = [cx - rx + jitter(), cy + jitter()];
+  const p = ([x, y]: Point) => `${round(x)} ${round(y)}`;
+
+  return [
+    `M${p(top)}`,
+    `C${p([top[0] + rx * k, top[1]])} ${p([right[0], right[1] - ry * k])} ${p(right)}`,
+    `C${p([right[0], right[1] + ry * k])} ${p([bottom[0] + rx * k, bottom[1]])} ${p(bottom)}`,
+    `C${p([bottom[0] - rx * k, bottom[1]])} ${p([left[0], left[1] + ry * k])} ${p(left)}`,
+    `C${p([left[0], left[1] - ry * k])} ${p([top[0] - rx * k, top[1]])} ${p(top)} Z`,
+  ].join(' ');
+}
+
+function inkFor(random: Random) {
+  const ink = random() < 0.82 ? DEFAULT_INK : pick(random, RARE_INKS);
+  const channels = [1, 3, 5].map((start) => parseInt(ink.slice(start, start + 2), 16));
+  return { ink, faint: `rgba(${channels.join(', ')}, 0.44)` };
+}
+
+function panelGrid(
+  random: Random,
+  wobble: number,
+  { top, bottom, columns, rows }: { top: number; bottom: number; columns: number; rows: number }
+): DoorPanel[] {
+  const left = 58;
+  const right = 263;
+  const gap = between(random, 38, 56);
+  const width = (right - left - gap * (columns - 1)) / columns;
+  const height = (bottom - top - gap * (rows - 1)) / rows;
+  const inset = Math.min(18, width / 5, height / 4);
+
+  return Array.from({ length: rows * columns }, (_, index) => {
+    const x = left + (index % columns) * (width + gap);
+    const y = top + Math.floor(index / columns) * (height + gap);
+    return {
+      face: quad(random, wobble, x, y, x + width, y + height),
+      inner: quad(random, wobble, x + inset, y + inset, x + width - inset, y + height - inset),
+    };
+  });
+}
+
+function hardware(random: Random, wobble: number, knobY: number) {
+  const y = knobY * 720;
+  const style = pick(random, ['plate', 'plate', 'escutcheon', 'bare'] as const);
+  const keyholeY = style === 'escutcheon' ? y + 26 : y + 35;
+  const keyhole = `M280 ${round(keyholeY)} C276 ${round(keyholeY)} 275 ${round(keyholeY + 6)} 278 ${round(keyholeY + 8)} L276 ${round(keyholeY + 21)} H284 L282 ${round(keyholeY + 8)} C285 ${round(keyholeY + 6)} 284 ${round(keyholeY)} 280 ${round(keyholeY)} Z`;
+
+  if (style === 'plate') {
+    return {
+      plate: quad(random, wobble / 2, 268, y - 15, 288, y + 50),
+      plateEcho: quad(random, wobble / 3, 271, y - 11, 285, y + 46),
+      keyhole,
+    };
+  }
+
+  if (style === 'escutcheon') {
+    return {
+      plate: ellipse(random, wobble / 3, 279, y + 14, 11, 30),
+      plateEcho: null,
+      keyhole,
+    };
+  }
+
+  return { plate: null, plateEcho: null, keyhole: random() < 0.5 ? keyhole : null };
+}
+
+function panelledDoor(random: Random, door: number, wobble: number): DoorDesign {
+  const layout = pick(random, ['rows', 'rows', 'columns', 'tall'] as const);
+  const knobY = between(random, 0.56, 0.64);
+  const panels = layout === 'rows'
+    ? panelGrid(random, wobble, { top: 76, bottom: 684, columns: 1, rows: 3 + Math.floor(random() * 4) })
+    : layout === 'columns'
+      ? panelGrid(random, wobble, { top: 76, bottom: 684, columns: 2, rows: 2 + Math.floor(random() * 3) })
+      : [
+        ...panelGrid(random, wobble, { top: 76, bottom: 404, columns: 2, rows: 1 }),
+        ...panelGrid(random, wobble, { top: 470, bottom: 684, columns: 2, rows: 1 }),
+      ];
+
+  return {
+    ...CLASSIC_DOOR,
+    door,
+    outline: quad(random, wobble, BOARD_LEFT - 1, BOARD_TOP, BOARD_RIGHT + 1, BOARD_BOTTOM),
+    inset: quad(random, wobble, BOARD_LEFT + 9, BOARD_TOP + 12, BOARD_RIGHT - 10, BOARD_BOTTOM - 12),
+    panels,
+    ...hardware(random, wobble, knobY),
+    knob: pick(random, ['round', 'round', 'square'] as const),
+    knobY,
+    ...inkFor(random),
+  };
+}
+
+function archedDoor(random: Random, door: number, wobble: number): DoorDesign {
+  const shoulder = round(between(random, 140, 176));
+  const crown = BOARD_TOP + round(between(random, 0, 8));
+  const archPath = (inset: number, bottom: number) => {
+    const left = BOARD_LEFT + inset;
+    const right = BOARD_RIGHT - inset;
+    const middle = (left + right) / 2;
+    const top = crown + inset;
+    return `M${left} ${bottom} L${left} ${shoulder + inset} C${left + 4} ${top + 40} ${middle - 60} ${top} ${middle} ${top} C${middle + 60} ${top} ${right - 4} ${top + 40} ${right} ${shoulder + inset} L${right} ${bottom} Z`;
+  };
+  const knobY = between(random, 0.57, 0.63);
+
+  return {
+    ...CLASSIC_DOOR,
+    door,
+    shape: 'arched',
+    outline: archPath(0, BOARD_BOTTOM),
+    inset: archPath(10, BOARD_BOTTOM - 12),
+    panels: [
+      { face: archPath(28, shoulder + 120), inner: archPath(46, shoulder + 102) },
+      ...panelGrid(random, wobble, { top: shoulder + 170, bottom: 684, columns: 2, rows: 2 }),
+    ],
+    ...hardware(random, wobble, knobY),
+    knob: 'round',
+    knobY,
+    ...inkFor(random),
+  };
+}
+
+function roundDoor(random: Random, door: number, wobble: number): DoorDesign {
+  const cy = round(between(random, 340, 380));
+  const radius = 128;
+  const planks = [-1, 0, 1].map((offset) => {
+    const x = 163 + offset * 42;
+    return `M${x} ${cy - radius + 30} L${x + round(between(random, -2, 2))} ${cy + radius - 30}`;
+  });
+
+  return {
+    ...CLASSIC_DOOR,
+    door,
+    shape: 'round',
+    outline: ellipse(random, wobble, 163, cy, radius + 4, radius + 4),
+    inset: ellipse(random, wobble, 163, cy, radius - 8, radius - 8),
+    panels: [],
+    details: [ellipse(random, wobble, 163, cy, radius - 34, radius - 34), ...planks],
+    plate: null,
+    plateEcho: null,
+    keyhole: null,
+    knob: 'round',
+    knobX: 0.51,
+    knobY: cy / 720,
+    ...inkFor(random),
+  };
+}
+
+function trapdoor(random: Random, door: number, wobble: number): DoorDesign {
+  const planks = Array.from({ length: 7 }, (_, index) => {
+    const y = BOARD_TOP + 90 * (index + 1) + round(between(random, -6, 6));
+    return `M${BOARD_LEFT + 10} ${y} L${BOARD_RIGHT - 10} ${y + round(between(random, -3, 3))}`;
+  });
+  const strap = (y: number) => quad(random, wobble, BOARD_LEFT + 4, y, BOARD_RIGHT - 60, y + 26);
+
+  return {
+    ...CLASSIC_DOOR,
+    door,
+    shape: 'trapdoor',
+    outline: quad(random, wobble, BOARD_LEFT - 1, BOARD_TOP, BOARD_RIGHT + 1, BOARD_BOTTOM),
+    inset: quad(random, wobble, BOARD_LEFT + 9, BOARD_TOP + 12, BOARD_RIGHT - 10, BOARD_BOTTOM - 12),
+    panels: [],
+    details: [...planks, strap(120), strap(574)],
+    plate: null,
+    plateEcho: null,
+    keyhole: null,
+    knob: 'ring',
+    knobY: between(random, 0.48, 0.54),
+    ...inkFor(random),
+  };
+}
+
+export function doorDesign(door: number): DoorDesign {
+  if (door <= 1) {
+    return CLASSIC_DOOR;
+  }
+
+  const random = seededRandom(Math.imul(door, 0x9e3779b1) ^ 0x2545f491);
+  const wobble = between(random, 1, 5);
+  const rarity = random();
+
+  if (rarity < 0.03) {
+    return roundDoor(random, door, wobble);
+  }
+
+  if (rarity < 0.06) {
+    return trapdoor(random, door, wobble);
+  }
+
+  if (rarity < 0.16) {
+    return archedDoor(random, door, wobble);
+  }
+
+  return panelledDoor(random, door, wobble);
+}
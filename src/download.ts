@@ -0,0 +1,11 @@
+// Saves a file made in the page, such as a door recording or a gate-balls
+// session, through the browser's usual download.
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Some browsers read the URL after the click returns.
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
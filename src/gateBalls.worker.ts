@@ -0,0 +1,48 @@
+import { createGateBallsRunner, GateBallsMessage, GateBallsReply, GateBallsRunner } from './gateBallsScene';
+
+// Steps and draws the rotating-gate simulation off the main thread, on the
+// OffscreenCanvas the page hands over in its `start` message.
+
+let runner: GateBallsRunner | null = null;
+let frameRequested = false;
+
+// Workers without requestAnimationFrame fall back to a 60 Hz timer.
+const nextFrame = (callback: (now: number) => void) => {
+  if (typeof globalThis.requestAnimationFrame === 'function') {
+    globalThis.requestAnimationFrame(callback);
+  } else {
+    setTimeout(() => callback(performance.now()), 1000 / 60);
+  }
+};
+
+// While the simulation runs each frame asks for the next. Once it's paused
+// frames stop, and each message asks for just one to show what it changed.
+const requestFrame = () => {
+  if (!frameRequested) {
+    frameRequested = true;
+    nextFrame(frame);
+  }
+};
+
+function frame(now: number) {
+  frameRequested = false;
+  runner?.frame(now);
+  if (runner?.running()) {
+    requestFrame();
+  }
+}
+
+globalThis.addEventListener('message', ({ data }: MessageEvent<GateBallsMessage>) => {
+  if (data.type === 'start') {
+    runner = createGateBallsRunner(
+      data.canvas,
+      data.viewport,
+      data.settings,
+      data.options,
+      (reply: GateBallsReply) => globalThis.postMessage(reply)
+    );
+  } else {
+    runner?.receive(data);
+  }
+  requestFrame();
+});
@@ -0,0 +1,20 @@
+import { benchmarkCount, benchmarkWorld } from './gateBallsBenchmark';
+
+test('scatters the same crowd of balls inside the ring for a count', () => {
+  const world = benchmarkWorld(200);
+
+  expect(world.balls).toHaveLength(200);
+  expect(new Set(world.balls.map(({ id }) => id)).size).toBe(200);
+  world.balls.forEach(({ x, y, r }) => {
+    expect(Math.hypot(x - world.ring.x, y - world.ring.y) + r).toBeLessThan(world.ring.R);
+  });
+  expect(benchmarkWorld(200)).toEqual(world);
+});
+
+test('times a step with each broad phase', () => {
+  const result = benchmarkCount(50, 2);
+
+  expect(result.balls).toBe(50);
+  expect(result.grid).toBeGreaterThanOrEqual(0);
+  expect(result.allPairs).toBeGreaterThanOrEqual(0);
+});
@@ -0,0 +1,76 @@
+import { DEFAULT_GATE_BALLS_SETTINGS } from './gateBallsSettings';
+import {
+  BroadPhase,
+  createWorld,
+  GateBallsLayout,
+  GateBallsWorld,
+  makeBall,
+  step,
+} from './gateBallsPhysics';
+import { seededRandom } from './random';
+
+// Times `step` on crowds of balls, with the grid broad phase and with the
+// all-pairs loop it replaced, for the benchmark on /gate-balls/?bench.
+
+export type BenchmarkResult = {
+  balls: number;
+  // Mean milliseconds a step takes.
+  grid: number;
+  allPairs: number;
+};
+
+export const BENCHMARK_COUNTS = [100, 250, 500, 1000, 2000, 4000];
+
+// A ring big enough that the largest count of benchmark balls fills half
+// of it. Balls outside the ring would be pulled onto its rim in a heap.
+const LAYOUT: GateBallsLayout = {
+  width: 1600,
+  height: 1000,
+  ring: { x: 1100, y: 500, R: 440 },
+  narrow: false,
+};
+
+const BALL_RADIUS = 5;
+const STEP_SECONDS = 1 / 60;
+
+// The same crowd every run for a count, so each broad phase gets the same one.
+export function benchmarkWorld(count: number): GateBallsWorld {
+  const rng = seededRandom(count);
+  const settings = { ...DEFAULT_GATE_BALLS_SETTINGS, maxBalls: count, splitLimit: count };
+  const world = createWorld(LAYOUT, settings, rng);
+  const { x, y, R } = LAYOUT.ring;
+  const balls = Array.from({ length: count }, (_, index) => {
+    // Evenly over the disc inside the rim.
+    const distance = Math.sqrt(rng()) * (R - BALL_RADIUS * 2);
+    const angle = rng() * Math.PI * 2;
+    return makeBall(
+      index + 1,
+      x + Math.cos(angle) * distance,
+      y + Math.sin(angle) * distance,
+      BALL_RADIUS,
+      rng
+    );
+  });
+
+  return { ...world, balls, nextId: count + 1 };
+}
+
+function timeSteps(world: GateBallsWorld, steps: number, broadPhase: BroadPhase) {
+  const rng = seededRandom(1);
+  let next = step(world, STEP_SECONDS, rng, { broadPhase, substeps: 1 });
+  const start = performance.now();
+  for (let index = 0; index < steps; index += 1) {
+    next = step(next, STEP_SECONDS, rng, { broadPhase, substeps: 1 });
+  }
+
+  return (performance.now() - start) / steps;
+}
+
+export function benchmarkCount(count: number, steps = 20): BenchmarkResult {
+  const world = benchmarkWorld(count);
+  return {
+    balls: count,
+    grid: timeSteps(world, steps, 'grid'),
+    allPairs: timeSteps(world, steps, 'all-pairs'),
+  };
+}
@@ -0,0 +1,207 @@
+import { DEFAULT_GATE_BALLS_SETTINGS } from './gateBallsSettings';
+import {
+  angleInArc,
+  Ball,
+  createWorld,
+  GateBallsLayout,
+  GateBallsWorld,
+  makeBall,
+  resolveBallBallCollisions,
+  step,
+  substepsFor,
+  turnRing,
+  wrapAngle,
+} from './gateBallsPhysics';
+import { Random } from './random';
+
+const LAYOUT: GateBallsLayout = {
+  width: 1200,
+  height: 800,
+  ring: { x: 800, y: 400, R: 300 },
+  narrow: false,
+};
+
+const seeded = (seed: number): Random => () => {
+  seed = (seed * 1103515245 + 12345) % 2 ** 31;
+  return seed / 2 ** 31;
+};
+
+const degrees = (value: number) => (value * Math.PI) / 180;
+
+const ballAt = (id: number, x: number, y: number, vx = 0, vy = 0): Ball => ({
+  ...makeBall(id, x, y, 10, () => 0.5),
+  vx,
+  vy,
+});
+
+const worldWith = (balls: Ball[], changes: Partial<GateBallsWorld> = {}): GateBallsWorld => ({
+  ...createWorld(LAYOUT, DEFAULT_GATE_BALLS_SETTINGS, seeded(1)),
+  balls,
+  nextId: balls.length + 1,
+  ...changes,
+});
+
+const run = (world: GateBallsWorld, steps: number, rng: Random, dt = 1 / 60) => {
+  for (let index = 0; index < steps; index += 1) {
+    world = step(world, dt, rng);
+  }
+  return world;
+};
+
+test('wraps angles into [0, 2π)', () => {
+  [-10 * Math.PI, -3.1, -0.1, 0, 0.1, 6.28, 10 * Math.PI].forEach((angle) => {
+    const wrapped = wrapAngle(angle);
+    expect(wrapped).toBeGreaterThanOrEqual(0);
+    expect(wrapped).toBeLessThan(Math.PI * 2);
+  });
+});
+
+test('finds angles inside arcs, including arcs that wrap past zero', () => {
+  expect(angleInArc(degrees(45), 0, degrees(90))).toBe(true);
+  expect(angleInArc(degrees(180), 0, degrees(90))).toBe(false);
+
+  expect(angleInArc(degrees(350), degrees(315), degrees(90))).toBe(true);
+  expect(angleInArc(degrees(10), degrees(315), degrees(90))).toBe(true);
+  expect(angleInArc(degrees(180), degrees(315), degrees(90))).toBe(false);
+});
+
+test('steps without changing the world it was given', () => {
+  const world = createWorld(LAYOUT, DEFAULT_GATE_BALLS_SETTINGS, seeded(3));
+  const before = JSON.parse(JSON.stringify(world));
+
+  const next = step(world, 1 / 60, seeded(4));
+
+  expect(world).toEqual(before);
+  expect(next.time).toBeCloseTo(1000 / 60);
+  expect(next.balls[0]).not.toBe(world.balls[0]);
+});
+
+test('runs the same way for the same random source', () => {
+  const first = run(createWorld(LAYOUT, DEFAULT_GATE_BALLS_SETTINGS, seeded(9)), 600, seeded(10));
+  const second = run(createWorld(LAYOUT, DEFAULT_GATE_BALLS_SETTINGS, seeded(9)), 600, seeded(10));
+
+  expect(second).toEqual(first);
+});
+
+test('pulls balls left on wide screens and down on narrow ones', () => {
+  const ball = ballAt(1, 800, 400);
+  const still = { ...DEFAULT_GATE_BALLS_SETTINGS, baseRotSpeed: 0 };
+
+  const wide = step(worldWith([ball], { settings: still }), 0.01, seeded(1));
+  const narrow = step(worldWith([ball], { settings: still, narrow: true }), 0.01, seeded(1));
+
+  expect(wide.balls[0].vx).toBeCloseTo(-14);
+  expect(wide.balls[0].vy).toBe(0);
+  expect(narrow.balls[0].vx).toBe(0);
+  expect(narrow.balls[0].vy).toBeCloseTo(14);
+});
+
+test('keeps balls inside the solid part of the ring and lights it on impact', () => {
+  // Falling onto the bottom of the ring, well away from the gap.
+  const world = worldWith([ballAt(1, 800, 680, 0, 600)], {
+    gapStart: degrees(250),
+    settings: { ...DEFAULT_GATE_BALLS_SETTINGS, gravity: 0, baseRotSpeed: 0 },
+    rotVel: 0,
+  });
+
+  const next = step(world, 1 / 30, seeded(1));
+  const { x, y, vy, r } = next.balls[0];
+
+  expect(Math.hypot(x - 800, y - 400)).toBeLessThanOrEqual(300 - r);
+  expect(vy).toBeLessThan(0);
+  expect(next.ringGlow).toBeGreaterThan(0);
+});
+
+test('splits a ball that escapes through the gap, and stops splitting at the limit', () => {
+  // The gap faces right and the ball is flying out through it.
+  const escaping = (id: number) => ballAt(id, 1115, 400, 600, 0);
+  const settings = { ...DEFAULT_GATE_BALLS_SETTINGS, gravity: 0, baseRotSpeed: 0 };
+  const world = worldWith([escaping(1)], {
+    gapStart: -Math.PI * 2 * settings.gapPercent / 2,
+    rotVel: 0,
+    settings,
+  });
+
+  const split = run(world, 2, seeded(1));
+  expect(split.balls).toHaveLength(3);
+  expect(split.balls[0]).toMatchObject({ id: 1, spawned: true, opacity: 1 });
+  expect(split.balls.slice(1).map(({ id }) => id)).toEqual([2, 3]);
+  expect(split.nextId).toBe(4);
+
+  const crowded = worldWith([escaping(1), ballAt(2, 700, 400), ballAt(3, 650, 400)], {
+    gapStart: world.gapStart,
+    rotVel: 0,
+    settings: { ...settings, splitLimit: 3 },
+  });
+  const held = run(crowded, 2, seeded(1));
+  expect(held.balls).toHaveLength(3);
+  expect(held.spawnEnabled).toBe(false);
+});
+
+test('fades escaped balls out and never leaves the ring empty', () => {
+  const world = worldWith([{ ...ballAt(1, 1200, 400), escapedAt: 0, opacity: 1 }], {
+    time: 0,
+    settings: { ...DEFAULT_GATE_BALLS_SETTINGS, gravity: 0 },
+  });
+
+  const fading = step(world, 1.2, seeded(1));
+  expect(fading.balls[0].opacity).toBeCloseTo(0.5);
+
+  const gone = step(fading, 0.3, seeded(1));
+  expect(gone.balls).toHaveLength(1);
+  expect(gone.balls[0]).toMatchObject({ id: 2, x: 800, y: 400 });
+});
+
+test('pushes overlapping balls apart and conserves their momentum', () => {
+  const a = ballAt(1, 0, 0, 100, 0);
+  const b = ballAt(2, 15, 0, -50, 0);
+
+  resolveBallBallCollisions([a, b], 1);
+
+  expect(b.x - a.x).toBeCloseTo(20);
+  expect(a.vx + b.vx).toBeCloseTo(50);
+  expect(a.vx).toBeCloseTo(-50);
+  expect(b.vx).toBeCloseTo(100);
+});
+
+test('turns the ring with a drag and eases back to its base spin', () => {
+  const world = createWorld(LAYOUT, DEFAULT_GATE_BALLS_SETTINGS, seeded(1));
+  const dragged = turnRing(world, 0.5, 0.05);
+
+  expect(dragged.gapStart).toBeCloseTo(0.5);
+  expect(dragged.rotVel).toBeCloseTo(0.25 * 10 + 0.75 * 0.6);
+  expect(dragged.lastInteractAt).toBe(world.time);
+
+  const rested = run(dragged, 60 * 6, seeded(2));
+  expect(rested.rotVel).toBeCloseTo(DEFAULT_GATE_BALLS_SETTINGS.baseRotSpeed, 1);
+});
+
+test('finds the same contacts with the grid as with every pair', () => {
+  const rng = seeded(21);
+  const crowd = Array.from({ length: 40 }, (_, index) => ({
+    ...makeBall(index + 1, 620 + rng() * 360, 220 + rng() * 360, 10, rng),
+    vx: (rng() - 0.5) * 400,
+  }));
+  const world = worldWith(crowd);
+
+  const grid = run(world, 240, seeded(5));
+  let allPairs = world;
+  const allPairsRng = seeded(5);
+  for (let index = 0; index < 240; index += 1) {
+    allPairs = step(allPairs, 1 / 60, allPairsRng, { broadPhase: 'all-pairs' });
+  }
+
+  expect(grid).toEqual(allPairs);
+});
+
+test('substeps fast balls so they hit what they would fly past', () => {
+  const still = { ...DEFAULT_GATE_BALLS_SETTINGS, gravity: 0, baseRotSpeed: 0 };
+  const world = worldWith([ballAt(1, 700, 400, 3000, 0), ballAt(2, 760, 400)], {
+    settings: still,
+    rotVel: 0,
+  });
+
+  expect(substepsFor(world, 1 / 30)).toBe(8);
+  expect(step(world, 1 / 30, seeded(1), { substeps: 1 }).balls[1].vx).toBe(0);
+  expect(step(world, 1 / 30, seeded(1)).balls[1].vx).toBeGreaterThan(1000);
+});
@@ -0,0 +1,496 @@
+import { GateBallsSettings, MAX_ROTATION_SPEED } from './gateBallsSettings';
+import { Random } from './random';
+
+// The rotating-gate simulation without React or a canvas: balls fall inside a
+// spinning ring, bounce off it and each other, and split in two as they slip
+// out through its gap. `step` returns the next world and leaves the one it
+// was given alone; anything random comes from the `Random` passed in.
+
+export type Ball = {
+  id: number;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  r: number;
+  color: string;
+  h: number; // hue for styled rendering
+  s: number; // saturation %
+  l: number; // lightness %
+  // Escape + fade lifecycle
+  escapedAt?: number; // sim ms
+  spawned?: boolean; // whether we've spawned replacements for this ball
+  opacity?: number; // 0..1 for fade-out after delay
+  gapOutsideTicks?: number;
+  exitGraceUntil?: number; // sim ms to ignore ring collisions briefly
+};
+
+export type Ring = {
+  x: number;
+  y: number;
+  R: number;
+};
+
+// Where the ring sits in a viewport of `width` × `height` CSS pixels. Narrow
+// screens pull the balls down and start them larger; wide ones, with the ring
+// on the right, pull them left.
+export type GateBallsLayout = {
+  width: number;
+  height: number;
+  ring: Ring;
+  narrow: boolean;
+};
+
+export type GateBallsWorld = GateBallsLayout & {
+  settings: GateBallsSettings;
+  balls: Ball[];
+  gapStart: number; // radians
+  rotVel: number; // rad/s
+  time: number; // sim ms, advancing only while stepped
+  lastInteractAt: number; // sim ms of the last drag on the rim
+  // Escapes stop splitting once `splitLimit` balls are out, until one is left.
+  spawnEnabled: boolean;
+  ringGlow: number; // 0..1, kicked up as balls hit the ring
+  nextId: number;
+};
+
+// How ball pairs that might touch are found. `all-pairs` checks every pair,
+// and is kept as the reference the grid is measured against.
+export type BroadPhase = 'grid' | 'all-pairs';
+
+export type StepOptions = {
+  broadPhase?: BroadPhase;
+  // By default, as many as keep every ball from moving further than its own
+  // radius in one, so fast balls can't pass through each other.
+  substeps?: number;
+};
+
+const ROT_DAMPING = 0.8; // per second fractional damping toward 0 (when interacting)
+const AUTO_APPROACH_RATE = 1.6; // per second approach toward baseRotSpeed when idle
+const IDLE_RESET_MS = 1600; // after this idle, ease back to base speed
+const MIN_BALL_RADIUS = 10; // keep balls a bit larger overall
+const INITIAL_RADIUS = 10;
+const ESCAPE_FADE_DELAY_MS = 1000;
+const ESCAPE_FADE_MS = 400;
+const MAX_SUBSTEPS = 8;
+
+export function clamp(v: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, v));
+}
+
+export function wrapAngle(theta: number) {
+  const t = theta % (Math.PI * 2);
+  return t < 0 ? t + Math.PI * 2 : t;
+}
+
+export function angleInArc(angle: number, arcStart: number, arcLen: number) {
+  const a = wrapAngle(angle);
+  const s = wrapAngle(arcStart);
+  let e = s + arcLen;
+  if (e < Math.PI * 2) {
+    return a >= s && a <= e;
+  } else {
+    e -= Math.PI * 2; // wrapped end
+    return a >= s || a <= e;
+  }
+}
+
+export function makeBall(id: number, x: number, y: number, radius: number, rng: Random): Ball {
+  // Curated but more varied palette around the ring’s blue/cyan
+  // Slight variance in hue, saturation, and lightness for visual richness
+  const hue = Math.floor(185 + rng() * 50); // 185..235 (teal → blue → periwinkle)
+  const sat = 64 + Math.floor(rng() * 16); // 64..79 %
+  const light = 52 + Math.floor(rng() * 12); // 52..63 %
+  return {
+    id,
+    x,
+    y,
+    vx: (rng() - 0.5) * 60,
+    vy: (rng() - 0.8) * 120, // slight initial upward bias
+    r: radius,
+    color: `hsl(${hue} ${sat}% ${light}%)`,
+    h: hue,
+    s: sat,
+    l: light,
+  };
+}
+
+const initialRadius = (narrow: boolean) => (narrow ? Math.round(INITIAL_RADIUS * 1.2) : INITIAL_RADIUS);
+
+// A world with a single ball at the centre of the ring.
+export function createWorld(layout: GateBallsLayout, settings: GateBallsSettings, rng: Random): GateBallsWorld {
+  const { x, y } = layout.ring;
+  return {
+    ...layout,
+    settings,
+    balls: [makeBall(1, x, y, initialRadius(layout.narrow), rng)],
+    gapStart: 0,
+    rotVel: settings.baseRotSpeed,
+    time: 0,
+    lastInteractAt: -1e9,
+    spawnEnabled: true,
+    ringGlow: 0,
+    nextId: 2,
+  };
+}
+
+// Moves the ring for a resized viewport; the balls stay where they are.
+export const layoutWorld = (world: GateBallsWorld, layout: GateBallsLayout): GateBallsWorld => ({
+  ...world,
+  ...layout,
+});
+
+// Only drags that start near the rim turn the ring.
+export function onRim({ ring }: Pick<GateBallsLayout, 'ring'>, x: number, y: number) {
+  const d = Math.hypot(x - ring.x, y - ring.y);
+  const rimBand = Math.max(18, Math.min(36, ring.R * 0.08));
+  return d > ring.R - rimBand && d < ring.R + rimBand;
+}
+
+export const ringAngle = ({ ring }: Pick<GateBallsLayout, 'ring'>, x: number, y: number) =>
+  Math.atan2(y - ring.y, x - ring.x);
+
+// Grabbing or letting go of the rim restarts the idle timer.
+export const touchRing = (world: GateBallsWorld): GateBallsWorld => ({
+  ...world,
+  lastInteractAt: world.time,
+});
+
+// Turns the ring by the pointer's change in angle around it over `seconds`.
+export function turnRing(world: GateBallsWorld, angleDelta: number, seconds: number): GateBallsWorld {
+  // Shortest signed delta between angles, wrapped to [-π, π]
+  const dAng = ((angleDelta + Math.PI) % (Math.PI * 2)) - Math.PI;
+  const instVel = dAng / Math.max(1e-3, seconds);
+  // Light smoothing to avoid spikes
+  const alpha = 0.25;
+  return {
+    ...world,
+    gapStart: wrapAngle(world.gapStart + dAng),
+    rotVel: clamp(alpha * instVel + (1 - alpha) * world.rotVel, -MAX_ROTATION_SPEED, MAX_ROTATION_SPEED),
+    lastInteractAt: world.time,
+  };
+}
+
+// Ring collision: clamp inside; reflect only when approaching outward.
+// Returns whether the ball struck hard enough to light the ring.
+export function resolveRingCollision(b: Ball, { x: cx, y: cy, R }: Ring, restitutionWall: number) {
+  const dx = b.x - cx;
+  const dy = b.y - cy;
+  const dist = Math.hypot(dx, dy) || 1e-6;
+  const nx = dx / dist;
+  const ny = dy / dist;
+  const e = Math.min(1.0, restitutionWall);
+  const eps = 0.8;
+  let struck = false;
+
+  const target = R - b.r - eps;
+  if (dist > target) {
+    b.x = cx + nx * target;
+    b.y = cy + ny * target;
+
+    const vn = b.vx * nx + b.vy * ny;
+    // Minimal outward speed threshold to avoid micro-bounces at the gap boundary
+    if (vn > 5) {
+      const j = (1 + e) * vn;
+      b.vx -= j * nx;
+      b.vy -= j * ny;
+      struck = true;
+    }
+
+    b.vx *= 0.999;
+    b.vy *= 0.999;
+  }
+
+  return struck;
+}
+
+// Equal-mass contact between two balls: split the overlap, then exchange
+// the impulse along the normal if they're closing.
+function resolvePair(a: Ball, b: Ball, restitutionBall: number) {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const dist = Math.hypot(dx, dy) || 1e-6;
+  const minDist = a.r + b.r;
+  if (dist >= minDist) {
+    return;
+  }
+
+  // Positional correction (equal mass): split the overlap
+  const overlap = minDist - dist;
+  const nx = dx / dist;
+  const ny = dy / dist;
+  const correction = overlap / 2;
+  a.x -= nx * correction;
+  a.y -= ny * correction;
+  b.x += nx * correction;
+  b.y += ny * correction;
+
+  // Velocity impulse (equal mass)
+  const rvx = b.vx - a.vx;
+  const rvy = b.vy - a.vy;
+  const relVelAlongN = rvx * nx + rvy * ny;
+  if (relVelAlongN < 0) {
+    const impulse = -(1 + restitutionBall) * relVelAlongN / (1 + 1); // m=1 each
+    const jx = impulse * nx;
+    const jy = impulse * ny;
+    a.vx -= jx;
+    a.vy -= jy;
+    b.vx += jx;
+    b.vy += jy;
+  }
+}
+
+function resolveAllPairs(balls: Ball[], restitutionBall: number) {
+  for (let i = 0; i < balls.length; i++) {
+    for (let j = i + 1; j < balls.length; j++) {
+      resolvePair(balls[i], balls[j], restitutionBall);
+    }
+  }
+}
+
+// Balls are hashed into square cells three of the largest radii across and
+// each meets only the balls in its own and the eight neighbouring cells, in
+// the ascending order the all-pairs loop takes. A pair the grid skips starts
+// more than a radius further apart than touching, so the two passes agree
+// unless corrections earlier in the same pass close that whole distance.
+function resolveInGrid(balls: Ball[], restitutionBall: number) {
+  const n = balls.length;
+  let maxR = 0;
+  for (const b of balls) maxR = Math.max(maxR, b.r);
+  const cellSize = maxR * 3 || 1;
+  let tableSize = 1;
+  while (tableSize < n * 2) tableSize <<= 1;
+  const mask = tableSize - 1;
+  const hashCell = (x: number, y: number) => (Math.imul(x, 73856093) ^ Math.imul(y, 19349663)) & mask;
+
+  const cellX = new Int32Array(n);
+  const cellY = new Int32Array(n);
+  const starts = new Int32Array(tableSize + 1);
+  for (let i = 0; i < n; i++) {
+    cellX[i] = Math.floor(balls[i].x / cellSize);
+    cellY[i] = Math.floor(balls[i].y / cellSize);
+    starts[hashCell(cellX[i], cellY[i]) + 1] += 1;
+  }
+  for (let cell = 0; cell < tableSize; cell++) starts[cell + 1] += starts[cell];
+  const fill = starts.slice(0, tableSize);
+  const entries = new Int32Array(n);
+  for (let i = 0; i < n; i++) entries[fill[hashCell(cellX[i], cellY[i])]++] = i;
+
+  const neighbours: number[] = [];
+  for (let i = 0; i < n; i++) {
+    neighbours.length = 0;
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        const cell = hashCell(cellX[i] + dx, cellY[i] + dy);
+        for (let k = starts[cell]; k < starts[cell + 1]; k++) {
+          if (entries[k] > i) neighbours.push(entries[k]);
+        }
+      }
+    }
+
+    // Neighbouring cells can share a hash bucket, so skip repeats.
+    neighbours.sort((a, b) => a - b);
+    for (let k = 0; k < neighbours.length; k++) {
+      if (neighbours[k] !== neighbours[k - 1]) {
+        resolvePair(balls[i], balls[neighbours[k]], restitutionBall);
+      }
+    }
+  }
+}
+
+export function resolveBallBallCollisions(balls: Ball[], restitutionBall: number, broadPhase: BroadPhase = 'grid') {
+  if (broadPhase === 'grid') {
+    resolveInGrid(balls, restitutionBall);
+  } else {
+    resolveAllPairs(balls, restitutionBall);
+  }
+}
+
+// The gap turns with the ring's angular velocity, which eases back to the
+// base spin once the rim has been left alone for a while.
+function turnGap(world: GateBallsWorld, time: number, dt: number) {
+  const gapStart = wrapAngle(world.gapStart + world.rotVel * dt);
+  let rotVel = world.rotVel;
+
+  if (time - world.lastInteractAt >= IDLE_RESET_MS) {
+    // Ease angular velocity toward the base speed smoothly (no snap)
+    const blend = 1 - Math.exp(-AUTO_APPROACH_RATE * dt);
+    rotVel += (world.settings.baseRotSpeed - rotVel) * blend;
+  } else if (rotVel !== 0) {
+    // Normal damping toward 0 while interacting or shortly after
+    const decayed = Math.abs(rotVel) * Math.exp(-ROT_DAMPING * dt);
+    rotVel = Math.sign(rotVel) * (decayed < 1e-4 ? 0 : decayed);
+  }
+
+  return { gapStart, rotVel: clamp(rotVel, -MAX_ROTATION_SPEED, MAX_ROTATION_SPEED) };
+}
+
+// Floor and walls: on wide screens the left edge is the floor; on narrow ones
+// the bottom is, and both sides are walls.
+function resolveBounds(b: Ball, width: number, height: number, narrow: boolean) {
+  if (b.x - b.r < 0) {
+    b.x = b.r;
+    if (b.vx < 0) b.vx = -b.vx * 0.7;
+    b.vy *= narrow ? 0.995 : 0.99; // small friction along the floor
+    if (Math.abs(b.vx) < 5) b.vx = 0;
+  }
+  if (b.x + b.r > width) {
+    b.x = width - b.r;
+    if (b.vx > 0) b.vx = -b.vx * 0.7;
+    b.vy *= 0.995;
+    if (Math.abs(b.vx) < 5) b.vx = 0;
+  }
+  if (b.y - b.r < 0) {
+    b.y = b.r;
+    if (b.vy < 0) b.vy = -b.vy * 0.65;
+    b.vx *= 0.995;
+    if (Math.abs(b.vy) < 5) b.vy = 0;
+  }
+  if (b.y + b.r > height) {
+    b.y = height - b.r;
+    if (b.vy > 0) b.vy = -b.vy * (narrow ? 0.72 : 0.68);
+    b.vx *= narrow ? 0.992 : 0.995; // slightly reduced friction
+    if (Math.abs(b.vy) < 5) b.vy = 0;
+  }
+}
+
+function advance(world: GateBallsWorld, dt: number, rng: Random, broadPhase: BroadPhase): GateBallsWorld {
+  const { settings, ring, width, height, narrow } = world;
+  const { x: cx, y: cy, R } = ring;
+  const balls = world.balls.map((ball) => ({ ...ball }));
+  const now = world.time + dt * 1000;
+  let { spawnEnabled, ringGlow, nextId } = world;
+
+  // Toggle spawn policy based on current population
+  if (balls.length >= settings.splitLimit) spawnEnabled = false;
+  if (balls.length <= 1) spawnEnabled = true;
+
+  const gapLen = Math.PI * 2 * settings.gapPercent; // radians
+  const { gapStart, rotVel } = turnGap(world, now, dt);
+
+  const toRemove: number[] = [];
+  const toSpawn: Ball[] = [];
+
+  for (let i = 0; i < balls.length; i++) {
+    const b = balls[i];
+
+    if (narrow) {
+      b.vy += settings.gravity * dt;
+    } else {
+      b.vx += -settings.gravity * dt;
+    }
+
+    b.x += b.vx * dt;
+    b.y += b.vy * dt;
+
+    // Circle collision or escape through gap
+    const dx = b.x - cx;
+    const dy = b.y - cy;
+    const dist = Math.hypot(dx, dy);
+    const angle = Math.atan2(dy, dx);
+    // Core gap definition (strict)
+    const basePad = Math.atan2(b.r, R) + 0.02;
+    const coreStart = gapStart + basePad;
+    const coreLen = Math.max(0, gapLen - 2 * basePad);
+    const inGapCore = angleInArc(angle, coreStart, coreLen);
+
+    const nx = dx / (dist || 1e-6);
+    const ny = dy / (dist || 1e-6);
+    const vn = b.vx * nx + b.vy * ny;
+    // Near-gap region: very small fixed angular margin around the core gap.
+    // This only suppresses collisions right at the rim to avoid one-frame jitter.
+    const nearMargin = Math.max(0.0025, Math.atan2(b.r * 0.3 + 0.5, R));
+    const inGapNear = angleInArc(angle, coreStart - nearMargin, coreLen + 2 * nearMargin);
+    const fullyOutside = dist - b.r >= R + 0.5;
+
+    if (inGapCore && fullyOutside && vn > 0 && b.escapedAt === undefined) {
+      b.gapOutsideTicks = (b.gapOutsideTicks || 0) + 1;
+      if (b.gapOutsideTicks >= 2) {
+        b.escapedAt = now;
+        b.opacity = 1;
+        if (spawnEnabled) {
+          const newR = Math.max(MIN_BALL_RADIUS, b.r * 0.98);
+          if (balls.length <= settings.maxBalls && newR >= MIN_BALL_RADIUS) {
+            const jx = (rng() - 0.5) * 0.5;
+            const jy = (rng() - 0.5) * 0.5;
+            toSpawn.push(makeBall(nextId++, cx + jx, cy + jy, newR, rng));
+            toSpawn.push(makeBall(nextId++, cx - jx, cy - jy, newR, rng));
+          }
+        }
+        b.spawned = true;
+      }
+    } else {
+      b.gapOutsideTicks = 0;
+    }
+
+    // If NOT in gap, resolve collision with the solid ring
+    // Skip when ball is escaped or within a brief grace window after crossing the gap
+    const closeToExit = inGapNear && (dist - b.r >= R - 0.6);
+    if (closeToExit) b.exitGraceUntil = Math.max(b.exitGraceUntil || 0, now + 180);
+    const inExitGrace = (b.exitGraceUntil || 0) > now;
+    // Only suppress collisions if actually in the gap core, or in the near-gap band and right at the rim
+    const suppressCollision = inGapCore || (inGapNear && closeToExit);
+    if (!suppressCollision && b.escapedAt === undefined && !inExitGrace) {
+      if (resolveRingCollision(b, ring, settings.restitutionWall)) {
+        // Kick up the ring glow on impact (stronger burst)
+        ringGlow = Math.min(1, ringGlow + 0.6);
+      }
+    }
+
+    resolveBounds(b, width, height, narrow);
+
+    // Fade out ~1s after escape, then remove
+    if (b.escapedAt !== undefined) {
+      const elapsed = now - b.escapedAt;
+      if (elapsed > ESCAPE_FADE_DELAY_MS) {
+        b.opacity = Math.max(0, 1 - (elapsed - ESCAPE_FADE_DELAY_MS) / ESCAPE_FADE_MS);
+        if (b.opacity <= 0) toRemove.push(i);
+      }
+    }
+  }
+
+  // Lightly decay the ring glow each step (slower decay for more presence)
+  ringGlow = Math.max(0, ringGlow - dt * 1.0);
+
+  // Ball-ball collisions after wall/floor resolution (single pass is usually enough visually)
+  resolveBallBallCollisions(balls, settings.restitutionBall, broadPhase);
+
+  const removed = new Set(toRemove);
+  const next = [...balls.filter((_, index) => !removed.has(index)), ...toSpawn];
+
+  // Safety: never let population drop to zero
+  if (next.length === 0) {
+    next.push(makeBall(nextId++, cx, cy, initialRadius(narrow), rng));
+  }
+
+  return {
+    ...world,
+    balls: next,
+    gapStart,
+    rotVel,
+    time: now,
+    spawnEnabled,
+    ringGlow,
+    nextId,
+  };
+}
+
+// Enough substeps that no ball travels further than its radius in one.
+export function substepsFor({ balls }: GateBallsWorld, dt: number) {
+  let travel = 0;
+  for (const b of balls) travel = Math.max(travel, (Math.hypot(b.vx, b.vy) * dt) / b.r);
+  return clamp(Math.ceil(travel), 1, MAX_SUBSTEPS);
+}
+
+export function step(
+  world: GateBallsWorld,
+  dt: number,
+  rng: Random,
+  { broadPhase = 'grid', substeps = substepsFor(world, dt) }: StepOptions = {}
+): GateBallsWorld {
+  let next = world;
+  for (let index = 0; index < substeps; index++) {
+    next = advance(next, dt / substeps, rng, broadPhase);
+  }
+  return next;
+}
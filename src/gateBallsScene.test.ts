@@ -0,0 +1,134 @@
+import { DEFAULT_GATE_BALLS_SETTINGS } from './gateBallsSettings';
+import { createGateBallsRunner, GateBallsReply, layoutFor } from './gateBallsScene';
+import { decodeSession, encodeSession } from './gateBallsSession';
+
+// A canvas whose 2D context records the calls made on it, as the worker's
+// OffscreenCanvas would receive them.
+const recordingCanvas = () => {
+  const calls: string[] = [];
+  const context = new Proxy({}, {
+    get: (target, name: string) => (...args: unknown[]) => {
+      calls.push(name);
+      return name.startsWith('create') ? { addColorStop: () => undefined, args } : undefined;
+    },
+    set: () => true,
+  });
+  const canvas = { width: 0, height: 0, getContext: () => context };
+
+  return { calls, canvas: canvas as unknown as OffscreenCanvas };
+};
+
+const options = { seed: 1 };
+
+test('sizes the backing store for the device pixel ratio and lays out the ring', () => {
+  const { canvas } = recordingCanvas();
+  const runner = createGateBallsRunner(canvas, { width: 1200, height: 800, dpr: 2 }, DEFAULT_GATE_BALLS_SETTINGS, options);
+
+  expect([canvas.width, canvas.height]).toEqual([2400, 1600]);
+  expect(runner.world().ring).toEqual(layoutFor(1200, 800).ring);
+  expect(runner.world().balls).toHaveLength(1);
+
+  runner.receive({ type: 'resize', viewport: { width: 600, height: 900, dpr: 1 } });
+  expect([canvas.width, canvas.height]).toEqual([600, 900]);
+  expect(runner.world()).toMatchObject({ narrow: true, ring: layoutFor(600, 900).ring });
+});
+
+test('steps and draws each frame, and follows drags, settings and pausing', () => {
+  const { calls, canvas } = recordingCanvas();
+  const runner = createGateBallsRunner(canvas, { width: 1200, height: 800, dpr: 1 }, DEFAULT_GATE_BALLS_SETTINGS, options);
+
+  runner.frame(1000);
+  runner.frame(1016);
+  expect(runner.world().time).toBeCloseTo(16);
+  expect(calls.filter((name) => name === 'clearRect')).toHaveLength(2);
+
+  runner.receive({ type: 'touch' });
+  expect(runner.world().lastInteractAt).toBe(runner.world().time);
+  const { rotVel } = runner.world();
+  runner.receive({ type: 'turn', angleDelta: 0.4, seconds: 0.1 });
+  expect(runner.world().rotVel).toBeCloseTo(0.25 * 4 + 0.75 * rotVel);
+
+  const settings = { ...DEFAULT_GATE_BALLS_SETTINGS, gravity: 0 };
+  runner.receive({ type: 'settings', settings });
+  expect(runner.world().settings).toBe(settings);
+
+  runner.receive({ type: 'running', running: false });
+  expect(runner.running()).toBe(false);
+  const paused = runner.world();
+  runner.frame(1032);
+  expect(runner.world()).toBe(paused);
+  expect(calls.filter((name) => name === 'clearRect')).toHaveLength(3);
+
+  runner.receive({ type: 'running', running: true });
+  expect(runner.running()).toBe(true);
+  runner.frame(1048);
+  expect(runner.world().time).toBeCloseTo(32);
+});
+
+test('replays a fixed-timestep run from its saved session, step for step', () => {
+  const replies: GateBallsReply[] = [];
+  const live = createGateBallsRunner(
+    recordingCanvas().canvas,
+    { width: 1200, height: 800, dpr: 1 },
+    DEFAULT_GATE_BALLS_SETTINGS,
+    { seed: 7, fixedStep: true }
+  );
+  let now = 0;
+  const frames = (runner: typeof live, count: number, ms: number) => {
+    for (let index = 0; index < count; index += 1) {
+      now += ms;
+      runner.frame(now);
+    }
+  };
+
+  live.frame(now);
+  frames(live, 30, 23);
+  live.receive({ type: 'touch' });
+  live.receive({ type: 'turn', angleDelta: 0.123456789, seconds: 1 / 60 });
+  frames(live, 20, 9);
+  live.receive({ type: 'running', running: false });
+  frames(live, 5, 16);
+  live.receive({ type: 'running', running: true });
+  live.receive({ type: 'settings', settings: { ...DEFAULT_GATE_BALLS_SETTINGS, gravity: 600 } });
+  live.receive({ type: 'resize', viewport: { width: 600, height: 900, dpr: 2 } });
+  frames(live, 40, 31);
+  live.receive({ type: 'touch' });
+
+  const session = live.session()!;
+  expect(session).toMatchObject({ seed: 7, width: 1200, height: 800 });
+  expect(session.inputs.map(({ input }) => input.type)).toEqual([
+    'touch', 'turn', 'running', 'running', 'settings', 'resize', 'touch',
+  ]);
+  expect(session.inputs[1].input).toEqual({ type: 'turn', angleDelta: 0.12346, seconds: 0.0167 });
+
+  // Played back at another frame rate, on a screen the run ended on.
+  const replay = createGateBallsRunner(
+    recordingCanvas().canvas,
+    { width: 600, height: 900, dpr: 1 },
+    DEFAULT_GATE_BALLS_SETTINGS,
+    { seed: 1, replay: decodeSession(encodeSession(session)) },
+    (message) => replies.push(message)
+  );
+  replay.receive({ type: 'touch' });
+  replay.frame(now);
+  while (replay.world().time < live.world().time) {
+    frames(replay, 1, 13);
+  }
+
+  expect(replay.world()).toEqual(live.world());
+  expect(replay.session()).toEqual(session);
+
+  replay.receive({ type: 'session' });
+  // The replay paused and resumed where the run did, then answered.
+  expect(replies).toEqual([
+    { type: 'running', running: false },
+    { type: 'running', running: true },
+    { type: 'session', session },
+  ]);
+});
+
+test('saves nothing from a run without a fixed timestep', () => {
+  const runner = createGateBallsRunner(recordingCanvas().canvas, { width: 800, height: 600, dpr: 1 }, DEFAULT_GATE_BALLS_SETTINGS, options);
+
+  expect(runner.session()).toBeNull();
+});
@@ -0,0 +1,414 @@
+import { GateBallsSettings } from './gateBallsSettings';
+import {
+  createWorld,
+  GateBallsLayout,
+  GateBallsWorld,
+  layoutWorld,
+  step,
+  touchRing,
+  turnRing,
+} from './gateBallsPhysics';
+import { seededRandom } from './random';
+import {
+  FIXED_STEP_SECONDS,
+  GateBallsInput,
+  GateBallsSession,
+  LoggedInput,
+  quantizeInput,
+} from './gateBallsSession';
+
+// Runs and draws the rotating-gate simulation on a canvas, driven only by
+// messages, so the same code runs in gateBalls.worker.ts on an
+// OffscreenCanvas and, where that's missing, on the page's own canvas.
+
+export type GateBallsViewport = {
+  width: number; // CSS pixels
+  height: number;
+  dpr: number;
+};
+
+export type GateBallsRunOptions = {
+  seed: number;
+  // Step by FIXED_STEP_SECONDS and log every input, so the run can be saved
+  // as a session and replayed.
+  fixedStep?: boolean;
+  // A saved session to play back before carrying on live; implies fixedStep.
+  replay?: GateBallsSession | null;
+};
+
+export type GateBallsMessage =
+  | {
+    type: 'start';
+    canvas: OffscreenCanvas;
+    viewport: GateBallsViewport;
+    settings: GateBallsSettings;
+    options: GateBallsRunOptions;
+  }
+  | { type: 'resize'; viewport: GateBallsViewport }
+  | { type: 'settings'; settings: GateBallsSettings }
+  | { type: 'running'; running: boolean }
+  // A drag on the rim starting or ending.
+  | { type: 'touch' }
+  // The drag's change in angle around the ring over `seconds`.
+  | { type: 'turn'; angleDelta: number; seconds: number }
+  // Asks for a `session` reply.
+  | { type: 'session' };
+
+// What the simulation sends back to the page.
+export type GateBallsReply =
+  | { type: 'session'; session: GateBallsSession | null }
+  // Replays pause and resume the run themselves.
+  | { type: 'running'; running: boolean };
+
+type GateBallsContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+type TrailPoint = { x: number; y: number; r: number };
+// Short-lived positions behind each ball, by ball id.
+type Trails = Map<number, TrailPoint[]>;
+
+const TRAIL_LEN = 20;
+// Trails cost twenty arcs a ball, so big crowds are drawn without them.
+const MAX_TRAILED_BALLS = 500;
+
+function recordTrails(trails: Trails, world: GateBallsWorld) {
+  const live = new Set<number>();
+  for (const b of world.balls) {
+    live.add(b.id);
+    const trail = trails.get(b.id) ?? [];
+    trail.push({ x: b.x, y: b.y, r: b.r });
+    if (trail.length > TRAIL_LEN) trail.shift();
+    trails.set(b.id, trail);
+  }
+  trails.forEach((_, id) => {
+    if (!live.has(id)) trails.delete(id);
+  });
+}
+
+// Circle positioning: desktop on the right; mobile centered above the panel
+export function layoutFor(vw: number, vh: number): GateBallsLayout {
+  const narrow = vw <= 768; // basic mobile breakpoint
+  const padding = 16;
+  let circleDia: number;
+  if (narrow) {
+    circleDia = Math.min(vw, vh) * 0.86;
+  } else {
+    // Constrain by available width after reserving space for the text block
+    const sidePadRight = 60; // visual offset from right edge
+    const leftMargin = Math.min(vw * 0.07, 80);
+    const textWidth = Math.min(560, vw * 0.45); // responsive text column width
+    const gutter = 32; // breathing room between text and circle
+    const baseDia = Math.min(vw, vh) * 0.8;
+    const widthCap = vw - (leftMargin + textWidth + gutter) - sidePadRight + padding;
+    const heightCap = vh - 2 * padding;
+    circleDia = Math.max(120, Math.min(baseDia, widthCap, heightCap));
+  }
+
+  const R = Math.max(8, circleDia / 2 - padding);
+  const x = narrow ? vw / 2 : vw - circleDia / 2 - 60;
+  const y = narrow ? Math.max(R + padding + 12, vh * 0.38) : vh / 2;
+  return { width: vw, height: vh, ring: { x, y, R }, narrow };
+}
+
+function draw(ctx: GateBallsContext, world: GateBallsWorld, trails: Trails) {
+  const { x: cx, y: cy, R } = world.ring;
+  const gapLen = Math.PI * 2 * world.settings.gapPercent;
+  const { gapStart } = world;
+
+  // Draw the rotating ring with gradient and optional glow
+  ctx.save();
+  const grad = ctx.createLinearGradient(cx - R, cy - R, cx + R, cy + R);
+  grad.addColorStop(0, '#7aa2ff');
+  grad.addColorStop(1, '#9ff0ff');
+
+  const glow = world.ringGlow;
+  if (glow > 0.001) {
+    // Inner glow (subtle)
+    ctx.save();
+    ctx.globalCompositeOperation = 'lighter';
+    ctx.globalAlpha = 0.32 + 0.56 * glow;
+    ctx.shadowColor = 'rgba(122, 162, 255, 0.88)';
+    ctx.shadowBlur = 26 + 38 * glow;
+    ctx.lineWidth = 7 + 3.0 * glow;
+    ctx.strokeStyle = grad;
+    ctx.beginPath();
+    ctx.arc(cx, cy, R, gapStart + gapLen, gapStart + Math.PI * 2);
+    ctx.stroke();
+    ctx.restore();
+
+    // Soft outer halo
+    ctx.save();
+    ctx.globalCompositeOperation = 'lighter';
+    ctx.globalAlpha = 0.12 + 0.26 * glow;
+    ctx.shadowColor = 'rgba(122, 162, 255, 0.84)';
+    ctx.shadowBlur = 34 + 56 * glow;
+    ctx.lineWidth = 9 + 4.0 * glow;
+    ctx.strokeStyle = grad;
+    ctx.beginPath();
+    ctx.arc(cx, cy, R, gapStart + gapLen, gapStart + Math.PI * 2);
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  // Base ring stroke on top for crisp edge
+  ctx.lineWidth = 6;
+  ctx.strokeStyle = grad;
+  ctx.beginPath();
+  ctx.arc(cx, cy, R, gapStart + gapLen, gapStart + Math.PI * 2);
+  ctx.stroke();
+
+  // Inner rim and gap indicator removed for cleaner look
+
+  // Draw balls with short procedural trails (no canvas accumulation)
+  const { balls } = world;
+  for (let i = 0; i < balls.length; i++) {
+    const b = balls[i];
+    const baseAlpha = b.opacity !== undefined ? b.opacity : 1;
+    const trail = balls.length <= MAX_TRAILED_BALLS ? trails.get(b.id) ?? [] : [];
+
+    // Circular trail segments: flatter, color-matched, no glow
+    if (trail.length >= 2) {
+      ctx.save();
+      for (let t = 0; t < trail.length - 1; t++) {
+        const seg = trail[t];
+        const k = t / (trail.length - 1 || 1); // 0..1 old->new
+        // Fade tail to a fine, dim point; slightly denser near the head
+        const a = baseAlpha * (0.02 + 0.08 * k);
+        ctx.globalAlpha = a;
+        ctx.fillStyle = b.color;
+        ctx.shadowColor = 'transparent';
+        ctx.shadowBlur = 0;
+        ctx.beginPath();
+        ctx.arc(seg.x, seg.y, seg.r * (0.10 + 0.75 * k), 0, Math.PI * 2);
+        ctx.fill();
+      }
+      ctx.restore();
+    }
+
+    // Ball (flat 2D style with defined dual border)
+    ctx.save();
+    ctx.globalAlpha = baseAlpha;
+    // Keep per-ball color for fill, for variety
+    ctx.fillStyle = b.color;
+    ctx.beginPath();
+    ctx.arc(b.x, b.y, b.r, 0, Math.PI * 2);
+    ctx.fill();
+    // First, darker stroke (inner) derived from fill color
+    const { h, s, l } = b;
+    const darkL = Math.max(20, l - 14);
+    ctx.lineWidth = Math.max(2.0, Math.min(3.0, b.r * 0.22));
+    ctx.strokeStyle = `hsl(${h} ${s}% ${darkL}%)`;
+    ctx.stroke();
+    // Second, thin accent stroke to echo the ring palette
+    ctx.lineWidth = Math.max(1.0, Math.min(1.8, b.r * 0.12));
+    ctx.strokeStyle = '#9ff0ff';
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  ctx.restore();
+}
+
+export type GateBallsRunner = ReturnType<typeof createGateBallsRunner>;
+
+// Everything an input changes in the world; pausing is left to the runner.
+function applyInput(world: GateBallsWorld, input: GateBallsInput): GateBallsWorld {
+  switch (input.type) {
+    case 'touch':
+      return touchRing(world);
+    case 'turn':
+      return turnRing(world, input.angleDelta, input.seconds);
+    case 'settings':
+      return { ...world, settings: input.settings };
+    case 'resize':
+      return layoutWorld(world, layoutFor(input.width, input.height));
+    default:
+      return world;
+  }
+}
+
+type ResizeInput = Extract<GateBallsInput, { type: 'resize' }>;
+
+const resizeInput = (width: number, height: number) =>
+  quantizeInput({ type: 'resize', width, height }) as ResizeInput;
+
+export function createGateBallsRunner(
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+  viewport: GateBallsViewport,
+  settings: GateBallsSettings,
+  { seed, fixedStep = false, replay = null }: GateBallsRunOptions,
+  reply: (message: GateBallsReply) => void = () => undefined
+) {
+  const ctx = canvas.getContext('2d') as GateBallsContext;
+  const trails: Trails = new Map();
+  const fixed = fixedStep || replay !== null;
+  const startSize = replay ? resizeInput(replay.width, replay.height) : resizeInput(viewport.width, viewport.height);
+  const startSettings = replay?.settings ?? settings;
+  const rng = seededRandom(replay?.seed ?? seed);
+  let world = createWorld(layoutFor(startSize.width, startSize.height), startSettings, rng);
+  let size = viewport;
+  let running = true;
+  let lastFrameAt: number | null = null;
+  // Fixed runs only
+  let accumulator = 0;
+  let stepIndex = 0;
+  let replaying = replay !== null;
+  const log: LoggedInput[] = [];
+  const pending: LoggedInput[] = replay ? [...replay.inputs] : [];
+
+  const setRunning = (next: boolean) => {
+    if (next !== running) {
+      running = next;
+      reply({ type: 'running', running });
+    }
+  };
+
+  const take = (input: GateBallsInput) => {
+    log.push({ step: stepIndex, input });
+    if (input.type === 'running') {
+      setRunning(input.running);
+    } else {
+      world = applyInput(world, input);
+    }
+  };
+
+  // A fixed run logs its input, rounded as it's logged; while a replay
+  // plays, the ring is the replay's and live input is ignored.
+  const receiveInput = (input: GateBallsInput) => {
+    if (!fixed) {
+      world = applyInput(world, input);
+    } else if (!replaying) {
+      take(quantizeInput(input));
+    }
+  };
+
+  const resize = (next: GateBallsViewport) => {
+    size = next;
+    canvas.width = Math.floor(next.width * next.dpr);
+    canvas.height = Math.floor(next.height * next.dpr);
+    const input = resizeInput(next.width, next.height);
+    if (input.width !== world.width || input.height !== world.height) {
+      receiveInput(input);
+    }
+  };
+  resize(viewport);
+
+  // Takes the replay's inputs for the steps taken so far, then hands over to
+  // live play, laid out for this viewport, once the replay is over.
+  const catchUp = () => {
+    while (pending.length > 0 && pending[0].step <= stepIndex) {
+      take(pending.shift()!.input);
+    }
+    if (replaying && stepIndex >= replay!.steps) {
+      replaying = false;
+      resize(size);
+    }
+  };
+  catchUp();
+
+  const session = (): GateBallsSession | null => (fixed ? {
+    seed: replay?.seed ?? seed,
+    width: startSize.width,
+    height: startSize.height,
+    settings: startSettings,
+    steps: replaying ? replay!.steps : stepIndex,
+    inputs: [...log, ...pending],
+  } : null);
+
+  return {
+    world: () => world,
+    running: () => running,
+    session,
+
+    receive(message: GateBallsMessage) {
+      switch (message.type) {
+        case 'resize':
+          resize(message.viewport);
+          break;
+        case 'settings':
+          receiveInput({ type: 'settings', settings: message.settings });
+          break;
+        case 'running':
+          if (fixed && !replaying) {
+            take({ type: 'running', running: message.running });
+          } else {
+            // Pausing a replay only holds it where it is.
+            running = message.running;
+          }
+          break;
+        case 'touch':
+          receiveInput({ type: 'touch' });
+          break;
+        case 'turn':
+          receiveInput({ type: 'turn', angleDelta: message.angleDelta, seconds: message.seconds });
+          break;
+        case 'session':
+          reply({ type: 'session', session: session() });
+          break;
+        default:
+          break;
+      }
+    },
+
+    frame(now: number) {
+      // clamp dt to avoid huge jumps when tab is inactive
+      const dt = lastFrameAt === null ? 0 : Math.min(Math.max((now - lastFrameAt) / 1000, 0), 0.033); // ~30 FPS max step
+      lastFrameAt = now;
+      let stepped = false;
+      if (fixed) {
+        accumulator = running ? accumulator + dt : 0;
+        while (running && accumulator >= FIXED_STEP_SECONDS) {
+          accumulator -= FIXED_STEP_SECONDS;
+          world = step(world, FIXED_STEP_SECONDS, rng);
+          stepIndex += 1;
+          stepped = true;
+          catchUp();
+        }
+      } else if (running) {
+        world = step(world, dt, rng);
+        stepped = true;
+      }
+      if (stepped) {
+        recordTrails(trails, world);
+      }
+
+      // 1 CSS px units. Full clear to avoid permanent ghosting; background is
+      // provided by CSS behind the canvas
+      ctx.setTransform(size.dpr, 0, 0, size.dpr, 0, 0);
+      ctx.clearRect(0, 0, size.width, size.height);
+      if (world.width !== size.width || world.height !== size.height) {
+        // A replay recorded on another screen, fitted to this one.
+        const scale = Math.min(size.width / world.width, size.height / world.height);
+        ctx.translate((size.width - world.width * scale) / 2, (size.height - world.height * scale) / 2);
+        ctx.scale(scale, scale);
+      }
+      draw(ctx, world, trails);
+    },
+  };
+}
+
+// Where the simulation runs, as the page sees it.
+export type GateBallsHost = {
+  post: (message: GateBallsMessage) => void;
+  stop: () => void;
+};
+
+// The fallback for browsers without OffscreenCanvas: the same runner on the
+// page's canvas, from the page's own animation frames.
+export function startInlineHost(
+  canvas: HTMLCanvasElement,
+  viewport: GateBallsViewport,
+  settings: GateBallsSettings,
+  options: GateBallsRunOptions,
+  onReply: (message: GateBallsReply) => void
+): GateBallsHost {
+  const runner = createGateBallsRunner(canvas, viewport, settings, options, onReply);
+  let frameId = requestAnimationFrame(function frame(now) {
+    runner.frame(now);
+    frameId = requestAnimationFrame(frame);
+  });
+
+  return {
+    post: (message) => runner.receive(message),
+    stop: () => cancelAnimationFrame(frameId),
+  };
+}
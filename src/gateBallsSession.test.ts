@@ -0,0 +1,70 @@
+import { DEFAULT_GATE_BALLS_SETTINGS } from './gateBallsSettings';
+import {
+  decodeSession,
+  encodeSession,
+  GateBallsSession,
+  quantizeInput,
+  replayFromSearch,
+  searchWithRun,
+  seedFromSearch,
+} from './gateBallsSession';
+
+const session: GateBallsSession = {
+  seed: 42,
+  width: 1280,
+  height: 720.5,
+  settings: { ...DEFAULT_GATE_BALLS_SETTINGS, gravity: 900 },
+  steps: 300,
+  inputs: [
+    { step: 0, input: { type: 'touch' } },
+    { step: 12, input: { type: 'turn', angleDelta: -0.02, seconds: 0.0167 } },
+    { step: 40, input: { type: 'running', running: false } },
+    { step: 40, input: { type: 'running', running: true } },
+    { step: 90, input: { type: 'settings', settings: { ...DEFAULT_GATE_BALLS_SETTINGS, maxBalls: 50 } } },
+    { step: 120, input: { type: 'resize', width: 600, height: 900 } },
+  ],
+};
+
+test('writes sessions compactly and reads them back', () => {
+  const text = encodeSession(session);
+
+  expect(text).toContain('[12,"turn",-0.02,0.0167]');
+  expect(text).toContain('[40,"pause"],[40,"resume"]');
+  expect(decodeSession(text)).toEqual(session);
+});
+
+test('rejects files that are not sessions and clamps settings that are out of range', () => {
+  const data = JSON.parse(encodeSession(session));
+
+  expect(decodeSession('not json')).toBeNull();
+  expect(decodeSession('[]')).toBeNull();
+  expect(decodeSession(JSON.stringify({ ...data, v: 2 }))).toBeNull();
+  expect(decodeSession(JSON.stringify({ ...data, seed: -1 }))).toBeNull();
+  expect(decodeSession(JSON.stringify({ ...data, inputs: [[3, 'jump']] }))).toBeNull();
+  // Out of order, or after the session ends
+  expect(decodeSession(JSON.stringify({ ...data, inputs: [[5, 'touch'], [4, 'touch']] }))).toBeNull();
+  expect(decodeSession(JSON.stringify({ ...data, inputs: [[301, 'touch']] }))).toBeNull();
+
+  const wild = decodeSession(JSON.stringify({ ...data, settings: { ...data.settings, gravity: 1e9 } }));
+  expect(wild?.settings.gravity).toBe(4000);
+});
+
+test('rounds drags and sizes as they are logged', () => {
+  expect(quantizeInput({ type: 'turn', angleDelta: 0.0123456, seconds: 0.016666 }))
+    .toEqual({ type: 'turn', angleDelta: 0.01235, seconds: 0.0167 });
+  expect(quantizeInput({ type: 'resize', width: 390.123, height: 844 }))
+    .toEqual({ type: 'resize', width: 390.12, height: 844 });
+});
+
+test('carries a replay in the address bar in place of a seed', () => {
+  const search = searchWithRun('?seed=9&gravity=900&fixed', true, session);
+
+  expect(search).toMatch(/^\?gravity=900&replay=[\w-]+$/);
+  expect(replayFromSearch(search)).toEqual(session);
+  expect(replayFromSearch('?replay=%%%')).toBeNull();
+  expect(searchWithRun(search, true, null)).toBe('?gravity=900&fixed');
+  expect(searchWithRun('?fixed', false, null)).toBe('');
+
+  expect(seedFromSearch('?seed=9')).toBe(9);
+  expect(seedFromSearch('?seed=-9')).toBeNull();
+});
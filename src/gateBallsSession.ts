@@ -0,0 +1,216 @@
+import {
+  clampSetting,
+  DEFAULT_GATE_BALLS_SETTINGS,
+  GATE_BALLS_SETTINGS,
+  GateBallsSettings,
+} from './gateBallsSettings';
+import { searchFromParams } from './router';
+
+// A fixed-timestep run of the rotating gate is fully described by its seed,
+// the viewport and settings it started with, and every input since, each
+// stamped with how many steps had been taken when it arrived. Replaying those
+// through the same steps gives back the same run, frame for frame.
+
+export type GateBallsInput =
+  | { type: 'touch' }
+  | { type: 'turn'; angleDelta: number; seconds: number }
+  | { type: 'running'; running: boolean }
+  | { type: 'settings'; settings: GateBallsSettings }
+  | { type: 'resize'; width: number; height: number };
+
+export type LoggedInput = {
+  step: number;
+  input: GateBallsInput;
+};
+
+export type GateBallsSession = {
+  seed: number;
+  width: number;
+  height: number;
+  settings: GateBallsSettings;
+  // How many steps the run had taken when it was saved.
+  steps: number;
+  inputs: LoggedInput[];
+};
+
+// The timestep of the fixed mode, and so of every session.
+export const FIXED_STEP_SECONDS = 1 / 60;
+
+const SESSION_VERSION = 1;
+const FIXED_PARAM = 'fixed';
+const SEED_PARAM = 'seed';
+const REPLAY_PARAM = 'replay';
+
+const round = (value: number, places: number) => Number(value.toFixed(places));
+
+// Inputs are rounded as they're logged, and the rounded values are the ones
+// applied, so the log holds exactly what the run saw in a few characters.
+export function quantizeInput(input: GateBallsInput): GateBallsInput {
+  switch (input.type) {
+    case 'turn':
+      return { type: 'turn', angleDelta: round(input.angleDelta, 5), seconds: round(input.seconds, 4) };
+    case 'resize':
+      return { type: 'resize', width: round(input.width, 2), height: round(input.height, 2) };
+    default:
+      return input;
+  }
+}
+
+export const randomSeed = () => Math.floor(Math.random() * 2 ** 32);
+
+export const fixedStepFromSearch = (search: string) => new URLSearchParams(search).has(FIXED_PARAM);
+
+export function seedFromSearch(search: string) {
+  const value = new URLSearchParams(search).get(SEED_PARAM);
+  return value && /^\d+$/.test(value) && Number(value) < 2 ** 32 ? Number(value) : null;
+}
+
+// Written compactly, as inputs like `[120, "turn", 0.01234, 0.0167]`, so a
+// session of a few drags still fits in a link.
+type EncodedInput = [number, string, ...unknown[]];
+
+function encodeInput({ step, input }: LoggedInput): EncodedInput {
+  switch (input.type) {
+    case 'turn':
+      return [step, 'turn', input.angleDelta, input.seconds];
+    case 'running':
+      return [step, input.running ? 'resume' : 'pause'];
+    case 'settings':
+      return [step, 'settings', input.settings];
+    case 'resize':
+      return [step, 'resize', input.width, input.height];
+    default:
+      return [step, input.type];
+  }
+}
+
+export const encodeSession = (session: GateBallsSession) => JSON.stringify({
+  v: SESSION_VERSION,
+  seed: session.seed,
+  size: [session.width, session.height],
+  settings: session.settings,
+  steps: session.steps,
+  inputs: session.inputs.map(encodeInput),
+});
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+function decodeSettings(value: unknown): GateBallsSettings | null {
+  if (typeof value !== 'object' || value === null) {
+    return null;
+  }
+
+  const record = value as Record<string, unknown>;
+  const settings = { ...DEFAULT_GATE_BALLS_SETTINGS };
+  for (const setting of GATE_BALLS_SETTINGS) {
+    const number = record[setting.key];
+    if (!isNumber(number)) {
+      return null;
+    }
+    settings[setting.key] = clampSetting(setting, number);
+  }
+
+  return settings;
+}
+
+function decodeInput(value: unknown): GateBallsInput | null {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+
+  const [, type, first, second] = value;
+  switch (type) {
+    case 'touch':
+      return { type: 'touch' };
+    case 'turn':
+      return isNumber(first) && isNumber(second) ? { type: 'turn', angleDelta: first, seconds: second } : null;
+    case 'pause':
+    case 'resume':
+      return { type: 'running', running: type === 'resume' };
+    case 'settings': {
+      const settings = decodeSettings(first);
+      return settings ? { type: 'settings', settings } : null;
+    }
+    case 'resize':
+      return isNumber(first) && isNumber(second) && first > 0 && second > 0
+        ? { type: 'resize', width: first, height: second }
+        : null;
+    default:
+      return null;
+  }
+}
+
+// Null for anything that isn't a session this version wrote.
+export function decodeSession(text: string): GateBallsSession | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+
+  if (typeof data !== 'object' || data === null) {
+    return null;
+  }
+
+  const { v, seed, size, steps, settings: rawSettings, inputs: rawInputs } = data as Record<string, unknown>;
+  const settings = decodeSettings(rawSettings);
+  if (
+    v !== SESSION_VERSION
+    || !isNumber(seed) || !Number.isInteger(seed) || seed < 0 || seed >= 2 ** 32
+    || !Array.isArray(size) || !isNumber(size[0]) || !isNumber(size[1]) || size[0] <= 0 || size[1] <= 0
+    || !settings
+    || !isNumber(steps) || !Number.isInteger(steps) || steps < 0
+    || !Array.isArray(rawInputs)
+  ) {
+    return null;
+  }
+
+  const inputs: LoggedInput[] = [];
+  for (const raw of rawInputs) {
+    const input = decodeInput(raw);
+    const step: unknown = Array.isArray(raw) ? raw[0] : undefined;
+    const previous = inputs[inputs.length - 1]?.step ?? 0;
+    if (!input || !isNumber(step) || !Number.isInteger(step) || step < previous || step > steps) {
+      return null;
+    }
+    inputs.push({ step, input });
+  }
+
+  return { seed, width: size[0], height: size[1], settings, steps, inputs };
+}
+
+// The session as a URL-safe base64 query value.
+export const sessionParam = (session: GateBallsSession) => window.btoa(encodeSession(session))
+  .replace(/\+/g, '-')
+  .replace(/\//g, '_')
+  .replace(/=+$/, '');
+
+export function replayFromSearch(search: string) {
+  const value = new URLSearchParams(search).get(REPLAY_PARAM);
+  if (!value) {
+    return null;
+  }
+
+  try {
+    return decodeSession(window.atob(value.replace(/-/g, '+').replace(/_/g, '/')));
+  } catch {
+    return null;
+  }
+}
+
+// The address bar for a run: `?fixed` for a fixed timestep, or `?replay=`
+// with the session to play, which implies it and carries its own seed.
+export function searchWithRun(search: string, fixedStep: boolean, replay: GateBallsSession | null) {
+  const params = new URLSearchParams(search);
+  params.delete(REPLAY_PARAM);
+  params.delete(FIXED_PARAM);
+  if (replay) {
+    params.delete(SEED_PARAM);
+    params.set(REPLAY_PARAM, sessionParam(replay));
+  } else if (fixedStep) {
+    params.set(FIXED_PARAM, '');
+  }
+
+  return searchFromParams(params);
+}
@@ -0,0 +1,147 @@
+import { searchFromParams } from './router';
+
+// The tunables of the rotating-gate simulation, and how they travel in links:
+// each one that differs from its default is a short query param, so
+// /gate-balls/?gap=0.3&gravity=600 opens with a wider gap and lighter balls.
+
+export type GateBallsSettings = {
+  // Share of the ring's circumference left open.
+  gapPercent: number;
+  // px/s², pulling left on wide screens and down on narrow ones.
+  gravity: number;
+  restitutionWall: number;
+  restitutionBall: number;
+  maxBalls: number;
+  // Escapes stop splitting once this many balls are out, until one is left.
+  splitLimit: number;
+  // rad/s the ring eases back to when left alone.
+  baseRotSpeed: number;
+};
+
+export type GateBallsSetting = {
+  key: keyof GateBallsSettings;
+  param: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+};
+
+export const DEFAULT_GATE_BALLS_SETTINGS: GateBallsSettings = {
+  gapPercent: 0.15,
+  gravity: 1400,
+  restitutionWall: 1,
+  restitutionBall: 0.98,
+  maxBalls: 300,
+  splitLimit: 20,
+  baseRotSpeed: 0.6,
+};
+
+// Fastest the ring may turn, by hand or on its own.
+export const MAX_ROTATION_SPEED = 6;
+
+// Ball-ball contacts go through a spatial grid, so crowds this large still
+// step in a few milliseconds.
+const MAX_BALLS = 5000;
+
+// In the order the control panel lists them.
+export const GATE_BALLS_SETTINGS: GateBallsSetting[] = [
+  {
+    key: 'gapPercent',
+    param: 'gap',
+    label: 'Gap',
+    min: 0.02,
+    max: 0.5,
+    step: 0.01,
+    format: (value) => `${Math.round(value * 100)}%`,
+  },
+  {
+    key: 'baseRotSpeed',
+    param: 'spin',
+    label: 'Spin',
+    min: -MAX_ROTATION_SPEED,
+    max: MAX_ROTATION_SPEED,
+    step: 0.1,
+    format: (value) => `${value.toFixed(1)} rad/s`,
+  },
+  {
+    key: 'gravity',
+    param: 'gravity',
+    label: 'Gravity',
+    min: 0,
+    max: 4000,
+    step: 50,
+    format: (value) => `${value} px/s²`,
+  },
+  {
+    key: 'restitutionWall',
+    param: 'wall',
+    label: 'Ring bounce',
+    min: 0,
+    max: 1,
+    step: 0.01,
+    format: (value) => value.toFixed(2),
+  },
+  {
+    key: 'restitutionBall',
+    param: 'bounce',
+    label: 'Ball bounce',
+    min: 0,
+    max: 1,
+    step: 0.01,
+    format: (value) => value.toFixed(2),
+  },
+  {
+    key: 'maxBalls',
+    param: 'max',
+    label: 'Ball cap',
+    min: 1,
+    max: MAX_BALLS,
+    step: 1,
+    format: String,
+  },
+  {
+    key: 'splitLimit',
+    param: 'split',
+    label: 'Stop splitting at',
+    min: 2,
+    max: MAX_BALLS,
+    step: 1,
+    format: (value) => `${value} balls`,
+  },
+];
+
+const decimals = (step: number) => (String(step).split('.')[1] ?? '').length;
+
+// Clamped to the slider's range and snapped to its step, so a hand-edited
+// link can't ask for more than the controls offer.
+export function clampSetting({ min, max, step }: GateBallsSetting, value: number) {
+  const snapped = min + Math.round((Math.min(max, Math.max(min, value)) - min) / step) * step;
+  return Number(Math.min(max, snapped).toFixed(decimals(step)));
+}
+
+export function settingsFromSearch(search: string): GateBallsSettings {
+  const params = new URLSearchParams(search);
+
+  return GATE_BALLS_SETTINGS.reduce((settings, setting) => {
+    const value = params.get(setting.param);
+    const number = value === null || value.trim() === '' ? NaN : Number(value);
+    return Number.isFinite(number)
+      ? { ...settings, [setting.key]: clampSetting(setting, number) }
+      : settings;
+  }, DEFAULT_GATE_BALLS_SETTINGS);
+}
+
+export function searchWithSettings(search: string, settings: GateBallsSettings) {
+  const params = new URLSearchParams(search);
+  GATE_BALLS_SETTINGS.forEach(({ key, param }) => {
+    if (settings[key] === DEFAULT_GATE_BALLS_SETTINGS[key]) {
+      params.delete(param);
+    } else {
+      params.set(param, String(settings[key]));
+    }
+  });
+
+  return searchFromParams(params);
+}
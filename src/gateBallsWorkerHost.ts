@@ -0,0 +1,28 @@
+import type { GateBallsSettings } from './gateBallsSettings';
+import type {
+  GateBallsHost,
+  GateBallsReply,
+  GateBallsRunOptions,
+  GateBallsViewport,
+} from './gateBallsScene';
+
+// Kept apart from the component and loaded on demand: `import.meta` is only
+// understood by the bundler, not by Jest or the prerender script.
+
+export function startWorkerHost(
+  canvas: HTMLCanvasElement,
+  viewport: GateBallsViewport,
+  settings: GateBallsSettings,
+  options: GateBallsRunOptions,
+  onReply: (message: GateBallsReply) => void
+): GateBallsHost {
+  const worker = new Worker(new URL('./gateBalls.worker.ts', import.meta.url));
+  worker.addEventListener('message', ({ data }: MessageEvent<GateBallsReply>) => onReply(data));
+  const offscreen = canvas.transferControlToOffscreen();
+  worker.postMessage({ type: 'start', canvas: offscreen, viewport, settings, options }, [offscreen]);
+
+  return {
+    post: (message) => worker.postMessage(message),
+    stop: () => worker.terminate(),
+  };
+}
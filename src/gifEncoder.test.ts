@@ -0,0 +1,86 @@
+import { createGifWriter, GIF_PALETTE, lzwEncode, paletteIndices } from './gifEncoder';
+
+// A plain GIF decoder's half of LZW, to check the codes read back.
+function lzwDecode(data: number[]) {
+  let dictionary: number[][] = [];
+  let codeSize = 9;
+  let bit = 0;
+  const output: number[] = [];
+  const reset = () => {
+    dictionary = Array.from({ length: 258 }, (_, code) => [code]);
+    codeSize = 9;
+  };
+  const read = () => {
+    let code = 0;
+    for (let index = 0; index < codeSize; index += 1, bit += 1) {
+      code |= ((data[bit >> 3] >> (bit & 7)) & 1) << index;
+    }
+    return code;
+  };
+
+  reset();
+  let previous: number[] | null = null;
+  for (;;) {
+    const code = read();
+    if (code === 256) {
+      reset();
+      previous = null;
+      continue;
+    }
+    if (code === 257) {
+      return output;
+    }
+
+    const entry: number[] = code < dictionary.length ? dictionary[code] : [...(previous ?? []), (previous ?? [])[0]];
+    output.push(...entry);
+    if (previous) {
+      dictionary.push([...previous, entry[0]]);
+    }
+    previous = entry;
+    if (dictionary.length === 1 << codeSize && codeSize < 12) {
+      codeSize += 1;
+    }
+  }
+}
+
+test('compresses pixels that decode back exactly, across table resets', () => {
+  let seed = 7;
+  const indices = Uint8Array.from({ length: 40000 }, (_, index) => {
+    seed = (seed * 1103515245 + 12345) % 2 ** 31;
+    return index % 900 < 300 ? 3 : seed % 23;
+  });
+
+  expect(lzwDecode(lzwEncode(indices))).toEqual(Array.from(indices));
+});
+
+test('maps colours to their nearest palette entry', () => {
+  const pixels = Uint8ClampedArray.from([
+    0, 0, 0, 255,
+    233, 231, 223, 255,
+    204, 51, 0, 255,
+  ]);
+  const [black, ink, red] = Array.from(paletteIndices(pixels));
+  const colour = (entry: number) => Array.from(GIF_PALETTE.slice(entry * 3, entry * 3 + 3));
+
+  expect(colour(black)).toEqual([0, 0, 0]);
+  expect(colour(red)).toEqual([204, 51, 0]);
+  colour(ink).forEach((channel, index) => {
+    expect(Math.abs(channel - [233, 231, 223][index])).toBeLessThanOrEqual(8);
+  });
+});
+
+test('writes a looping GIF with a frame for each image', () => {
+  const writer = createGifWriter(3, 2, 5);
+  const frame = new Uint8ClampedArray(4 * 3 * 2).fill(255);
+  [frame, frame, frame].forEach((pixels) => writer.addFrame(pixels));
+  const parts = writer.finish();
+  const gif = new Uint8Array(parts.reduce<number[]>((bytes, part) => [...bytes, ...Array.from(part)], []));
+  const text = String.fromCharCode(...Array.from(gif));
+
+  expect(text.startsWith('GIF89a')).toBe(true);
+  expect(gif[6] | (gif[7] << 8)).toBe(3);
+  expect(gif[8] | (gif[9] << 8)).toBe(2);
+  expect(text).toContain('NETSCAPE2.0');
+  expect(text.split('\x21\xf9\x04').length - 1).toBe(3);
+  expect(gif[gif.length - 1]).toBe(0x3b);
+});
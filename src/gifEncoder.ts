@@ -0,0 +1,212 @@
+// A small GIF89a writer for exporting the Endless Door: one global palette,
+// LZW-compressed frames and a loop that never ends. Frames come in as RGBA
+// pixels, as `getImageData` hands them over.
+
+const MIN_CODE_SIZE = 8;
+const MAX_CODES = 4096;
+const MAX_SUB_BLOCK = 255;
+
+// The 216 web colours for the rare inks, then a ramp of 40 greys for the
+// shading on the default ink, which is almost all the door is drawn in.
+function buildPalette() {
+  const palette = new Uint8Array(256 * 3);
+  let entry = 0;
+
+  for (let red = 0; red < 6; red += 1) {
+    for (let green = 0; green < 6; green += 1) {
+      for (let blue = 0; blue < 6; blue += 1) {
+        palette.set([red * 51, green * 51, blue * 51], entry * 3);
+        entry += 1;
+      }
+    }
+  }
+
+  for (let step = 1; entry < 256; step += 1) {
+    const level = Math.round((step * 255) / 41);
+    palette.set([level, level, level], entry * 3);
+    entry += 1;
+  }
+
+  return palette;
+}
+
+export const GIF_PALETTE = buildPalette();
+
+// Nearest palette entry for each colour at 5 bits a channel, found on first use.
+const nearestEntries = new Int16Array(1 << 15).fill(-1);
+
+function nearestEntry(red: number, green: number, blue: number) {
+  const key = ((red >> 3) << 10) | ((green >> 3) << 5) | (blue >> 3);
+  if (nearestEntries[key] === -1) {
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let entry = 0; entry < 256; entry += 1) {
+      const dr = GIF_PALETTE[entry * 3] - red;
+      const dg = GIF_PALETTE[entry * 3 + 1] - green;
+      const db = GIF_PALETTE[entry * 3 + 2] - blue;
+      const distance = dr * dr + dg * dg + db * db;
+      if (distance < bestDistance) {
+        best = entry;
+        bestDistance = distance;
+      }
+    }
+    nearestEntries[key] = best;
+  }
+
+  return nearestEntries[key];
+}
+
+export function paletteIndices(pixels: Uint8ClampedArray) {
+  const indices = new Uint8Array(pixels.length / 4);
+  for (let pixel = 0; pixel < indices.length; pixel += 1) {
+    indices[pixel] = nearestEntry(pixels[pixel * 4], pixels[pixel * 4 + 1], pixels[pixel * 4 + 2]);
+  }
+
+  return indices;
+}
+
+class ByteWriter {
+  bytes: number[] = [];
+
+  byte(value: number) {
+    this.bytes.push(value & 0xff);
+  }
+
+  word(value: number) {
+    this.byte(value);
+    this.byte(value >> 8);
+  }
+
+  text(value: string) {
+    Array.from(value).forEach((character) => this.byte(character.charCodeAt(0)));
+  }
+
+  append(values: ArrayLike<number>) {
+    for (let index = 0; index < values.length; index += 1) {
+      this.byte(values[index]);
+    }
+  }
+
+  done() {
+    return new Uint8Array(this.bytes);
+  }
+}
+
+// Variable-width LZW codes, packed least significant bit first.
+export function lzwEncode(indices: Uint8Array) {
+  const clearCode = 1 << MIN_CODE_SIZE;
+  const endCode = clearCode + 1;
+  const output: number[] = [];
+  let buffer = 0;
+  let bufferBits = 0;
+  let codeSize = MIN_CODE_SIZE + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+
+  const emit = (code: number) => {
+    buffer |= code << bufferBits;
+    bufferBits += codeSize;
+    while (bufferBits >= 8) {
+      output.push(buffer & 0xff);
+      buffer >>= 8;
+      bufferBits -= 8;
+    }
+  };
+
+  emit(clearCode);
+  if (indices.length === 0) {
+    emit(endCode);
+    return output;
+  }
+
+  let prefix = indices[0];
+  for (let index = 1; index < indices.length; index += 1) {
+    const key = prefix * 256 + indices[index];
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode === MAX_CODES) {
+      emit(clearCode);
+      table = new Map();
+      codeSize = MIN_CODE_SIZE + 1;
+      nextCode = endCode + 1;
+    } else {
+      // The decoder widens its codes one entry behind, so widen as the first
+      // entry that needs the extra bit goes in.
+      if (nextCode >= 1 << codeSize) {
+        codeSize += 1;
+      }
+      table.set(key, nextCode);
+      nextCode += 1;
+    }
+    prefix = indices[index];
+  }
+
+  emit(prefix);
+  emit(endCode);
+  if (bufferBits > 0) {
+    output.push(buffer & 0xff);
+  }
+
+  return output;
+}
+
+export type GifWriter = {
+  addFrame: (pixels: Uint8ClampedArray) => void;
+  finish: () => Uint8Array[];
+};
+
+// Frames are compressed as they're added, so a long recording never holds
+// more than one frame of raw pixels. `delay` is how long each frame shows, in
+// hundredths of a second; `finish` hands back the file in pieces for a Blob.
+export function createGifWriter(width: number, height: number, delay: number): GifWriter {
+  const header = new ByteWriter();
+  header.text('GIF89a');
+  header.word(width);
+  header.word(height);
+  // A global table of 256 colours at 8 bits a channel.
+  header.byte(0xf7);
+  header.byte(0);
+  header.byte(0);
+  header.append(GIF_PALETTE);
+
+  header.append([0x21, 0xff, 0x0b]);
+  header.text('NETSCAPE2.0');
+  header.append([0x03, 0x01, 0x00, 0x00, 0x00]);
+
+  const parts = [header.done()];
+
+  return {
+    addFrame(pixels) {
+      const frame = new ByteWriter();
+      frame.append([0x21, 0xf9, 0x04, 0x00]);
+      frame.word(delay);
+      frame.append([0x00, 0x00]);
+
+      frame.byte(0x2c);
+      frame.word(0);
+      frame.word(0);
+      frame.word(width);
+      frame.word(height);
+      frame.byte(0);
+
+      frame.byte(MIN_CODE_SIZE);
+      const data = lzwEncode(paletteIndices(pixels));
+      for (let start = 0; start < data.length; start += MAX_SUB_BLOCK) {
+        const block = data.slice(start, start + MAX_SUB_BLOCK);
+        frame.byte(block.length);
+        frame.append(block);
+      }
+      frame.byte(0);
+      parts.push(frame.done());
+    },
+
+    finish() {
+      return [...parts, Uint8Array.of(0x3b)];
+    },
+  };
+}
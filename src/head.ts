@@ -0,0 +1,122 @@
+export const SITE_URL = 'https://anshsancheti.github.io/';
+
+export const absoluteUrl = (href: string) => new URL(href, SITE_URL).href;
+
+const DEFAULT_ROBOTS = 'index, follow, max-image-preview:large, max-snippet:-1, max-video-preview:-1';
+
+export type RouteHead = {
+  title: string;
+  description: string;
+  // Shorter copy for link previews; falls back to `description`.
+  socialDescription?: string;
+  // Omit for pages that should not be indexed under their own URL.
+  canonicalPath?: string;
+  ogType?: 'website' | 'profile' | 'article';
+  ogImage?: string;
+  themeColor: string;
+  robots?: string;
+  jsonLd?: object;
+};
+
+export type HeadTag = {
+  // Stable identity shared by the static markup and the runtime manager.
+  key: string;
+  tag: 'title' | 'meta' | 'link' | 'script';
+  attributes: Record<string, string>;
+  children?: string;
+};
+
+const meta = (key: string, attributes: Record<string, string>): HeadTag => ({
+  key,
+  tag: 'meta',
+  attributes,
+});
+
+export function headTags(head: RouteHead): HeadTag[] {
+  const socialDescription = head.socialDescription ?? head.description;
+  const canonicalUrl = head.canonicalPath ? absoluteUrl(head.canonicalPath) : undefined;
+  const ogImage = head.ogImage ? absoluteUrl(head.ogImage) : undefined;
+
+  return [
+    meta('theme-color', { name: 'theme-color', content: head.themeColor }),
+    meta('description', { name: 'description', content: head.description }),
+    meta('robots', { name: 'robots', content: head.robots ?? DEFAULT_ROBOTS }),
+    ...(canonicalUrl ? [{
+      key: 'canonical',
+      tag: 'link' as const,
+      attributes: { rel: 'canonical', href: canonicalUrl },
+    }] : []),
+    meta('og:type', { property: 'og:type', content: head.ogType ?? 'website' }),
+    meta('og:title', { property: 'og:title', content: head.title }),
+    meta('og:description', { property: 'og:description', content: socialDescription }),
+    ...(canonicalUrl ? [meta('og:url', { property: 'og:url', content: canonicalUrl })] : []),
+    ...(ogImage ? [meta('og:image', { property: 'og:image', content: ogImage })] : []),
+    meta('twitter:card', { name: 'twitter:card', content: ogImage ? 'summary_large_image' : 'summary' }),
+    meta('twitter:title', { name: 'twitter:title', content: head.title }),
+    meta('twitter:description', { name: 'twitter:description', content: socialDescription }),
+    ...(ogImage ? [meta('twitter:image', { name: 'twitter:image', content: ogImage })] : []),
+    ...(head.jsonLd ? [{
+      key: 'json-ld',
+      tag: 'script' as const,
+      attributes: { type: 'application/ld+json' },
+      children: JSON.stringify(head.jsonLd),
+    }] : []),
+    { key: 'title', tag: 'title', attributes: {}, children: head.title },
+  ];
+}
+
+const escapeHtml = (value: string) => value
+  .replaceAll('&', '&amp;')
+  .replaceAll('<', '&lt;')
+  .replaceAll('>', '&gt;')
+  .replaceAll('"', '&quot;')
+  .replaceAll("'", '&#039;');
+
+export function renderHeadTags(tags: HeadTag[]) {
+  return tags.map(({ key, tag, attributes, children }) => {
+    const attributeList = Object.entries({ ...attributes, 'data-route-head': key })
+      .map(([name, value]) => ` ${name}="${escapeHtml(value)}"`)
+      .join('');
+
+    if (children === undefined) {
+      return `<${tag}${attributeList}/>`;
+    }
+
+    const content = tag === 'script' ? children.replaceAll('<', '\\u003c') : escapeHtml(children);
+    return `<${tag}${attributeList}>${content}</${tag}>`;
+  }).join('');
+}
+
+// Brings document.head in line with `tags`, reusing the elements written by
+// the prerender so hydration doesn't flash a second set of tags.
+export function applyHeadTags(document: Document, tags: HeadTag[]) {
+  const existing = new Map<string, HTMLElement>();
+  document.head.querySelectorAll<HTMLElement>('[data-route-head]').forEach((element) => {
+    existing.set(element.dataset.routeHead ?? '', element);
+  });
+
+  tags.forEach(({ key, tag, attributes, children }) => {
+    let element = existing.get(key);
+    existing.delete(key);
+
+    if (!element || element.tagName.toLowerCase() !== tag) {
+      element?.remove();
+      element = document.createElement(tag);
+      element.dataset.routeHead = key;
+      document.head.appendChild(element);
+    }
+
+    Array.from(element.attributes).forEach(({ name }) => {
+      if (name !== 'data-route-head' && !(name in attributes)) {
+        element?.removeAttribute(name);
+      }
+    });
+    Object.entries(attributes).forEach(([name, value]) => element?.setAttribute(name, value));
+
+    if (children !== undefined && element.textContent !== children) {
+      element.textContent = children;
+    }
+  });
+
+  existing.forEach((element) => element.remove());
+}
@@ -0,0 +1,213 @@
+import { OPEN_ANGLE } from './doorPhysics';
+import {
+  DEFAULT_HINGED_LEAF_CONFIG,
+  HingedLeafEvent,
+  hingedLeafReducer,
+  HingedLeafState,
+  initialHingedLeafState,
+  isLeafMoving,
+  SettledLeaf,
+  slotLeaves,
+} from './hingedLeaf';
+
+const run = (state: HingedLeafState, events: HingedLeafEvent[], config = DEFAULT_HINGED_LEAF_CONFIG) =>
+  events.reduce((current, event) => hingedLeafReducer(current, event, config), state);
+
+// Frames every 16ms until nothing is moving, collecting whatever settled.
+function settle(state: HingedLeafState, from = 0) {
+  let current = state;
+  const settled: SettledLeaf[] = [];
+  for (let now = from; isLeafMoving(current) && now < from + 10000; now += 16) {
+    current = hingedLeafReducer(current, { type: 'tick', now });
+    settled.push(...current.settled);
+  }
+
+  return { state: current, settled };
+}
+
+test('swings a leaf open and hands it to the open stack', () => {
+  const opening = run(initialHingedLeafState(), [{ type: 'open' }]);
+
+  expect(opening.flights).toHaveLength(1);
+  expect(opening.flights[0]).toMatchObject({ leaf: 1, mode: 'opening', target: OPEN_ANGLE });
+
+  const { state, settled } = settle(opening);
+
+  expect(state.count).toBe(1);
+  expect(settled).toEqual([{ slot: 0, leaf: 1, angle: OPEN_ANGLE, counted: true }]);
+  expect(slotLeaves(state)).toEqual([1]);
+  expect(hingedLeafReducer(state, { type: 'handoff' }).handoff).toEqual([]);
+});
+
+test('swings at the same speed whatever the display refresh rate', () => {
+  // A quarter second of frames at a refresh rate, from the first frame.
+  const swingAt = (hertz: number) => {
+    let state = run(initialHingedLeafState(), [{ type: 'open' }]);
+    for (let frame = 0; frame <= hertz / 4; frame += 1) {
+      state = hingedLeafReducer(state, { type: 'tick', now: (frame * 1000) / hertz });
+    }
+    return state.flights[0].motion.angle;
+  };
+
+  const angle = swingAt(60);
+  expect(angle).toBeGreaterThan(0);
+  expect(angle).toBeLessThan(OPEN_ANGLE);
+  expect(swingAt(144)).toBeCloseTo(angle, 6);
+  expect(swingAt(120)).toBeCloseTo(angle, 6);
+});
+
+test('leaves the state it is given untouched', () => {
+  const state = run(initialHingedLeafState(2), [{ type: 'close' }, { type: 'tick', now: 0 }]);
+  const snapshot = JSON.stringify(state);
+
+  run(state, [
+    { type: 'tick', now: 200 },
+    { type: 'pointerDown', id: 1, x: 100, y: 0, time: 200, input: 'mouse' },
+    { type: 'pointerMove', id: 1, x: 20, y: 0, time: 240 },
+  ]);
+
+  expect(JSON.stringify(state)).toBe(snapshot);
+});
+
+test('chains presses into queued leaves but keeps one for a held key', () => {
+  const pressed = run(initialHingedLeafState(), [
+    { type: 'open' },
+    { type: 'open' },
+    { type: 'open' },
+  ]);
+  const held = run(initialHingedLeafState(), [
+    { type: 'open' },
+    { type: 'open', repeat: true },
+    { type: 'open', repeat: true },
+  ]);
+
+  expect(pressed.pending).toBe(2);
+  expect(held.pending).toBe(1);
+  expect(settle(pressed).state.count).toBe(3);
+});
+
+test('turns a swinging leaf back rather than queueing the other way', () => {
+  const state = run(initialHingedLeafState(), [
+    { type: 'open' },
+    { type: 'tick', now: 0 },
+    { type: 'tick', now: 100 },
+    { type: 'close' },
+  ]);
+
+  expect(state.flights[0]).toMatchObject({ mode: 'closing', target: 0 });
+  expect(settle(state, 116).state.count).toBe(0);
+});
+
+test('drags a leaf under the pointer and lets a flick carry on', () => {
+  const dragged = run(initialHingedLeafState(), [
+    { type: 'pointerDown', id: 1, x: 400, y: 0, time: 0, input: 'mouse' },
+    { type: 'pointerMove', id: 1, x: 300, y: 0, time: 40 },
+  ]);
+
+  expect(dragged.flights[0]).toMatchObject({ held: true, mode: 'opening' });
+  expect(dragged.flights[0].motion.angle).toBeCloseTo(100 * DEFAULT_HINGED_LEAF_CONFIG.dragDegreesPerPixel.mouse);
+  expect(isLeafMoving(dragged)).toBe(false);
+
+  const flicked = run(dragged, [
+    { type: 'pointerMove', id: 1, x: -200, y: 0, time: 80 },
+    { type: 'pointerUp', id: 1, time: 80, onOpenSide: false },
+  ]);
+
+  expect(flicked.pointer).toBeNull();
+  expect(flicked.pending).toBeGreaterThan(0);
+  expect(settle(flicked, 96).state.count).toBe(1 + flicked.pending);
+});
+
+test('turns further for each pixel on touch than with a mouse', () => {
+  const drag = (input: 'mouse' | 'touch') => run(initialHingedLeafState(), [
+    { type: 'pointerDown', id: 1, x: 400, y: 0, time: 0, input },
+    { type: 'pointerMove', id: 1, x: 300, y: 0, time: 40 },
+  ]).flights[0].motion.angle;
+
+  expect(drag('touch')).toBeGreaterThan(drag('mouse'));
+});
+
+test('follows the midpoint of a two-finger swipe without jumping', () => {
+  const oneFinger = run(initialHingedLeafState(), [
+    { type: 'pointerDown', id: 1, x: 400, y: 0, time: 0, input: 'touch' },
+    { type: 'pointerMove', id: 1, x: 350, y: 0, time: 20 },
+  ]);
+  const twoFingers = run(oneFinger, [
+    { type: 'pointerDown', id: 2, x: 450, y: 0, time: 30, input: 'touch' },
+  ]);
+
+  expect(twoFingers.pointer?.contacts).toHaveLength(2);
+  expect(twoFingers.flights[0].motion.angle).toBe(oneFinger.flights[0].motion.angle);
+
+  const swiped = run(twoFingers, [
+    { type: 'pointerMove', id: 1, x: 300, y: 0, time: 40 },
+    { type: 'pointerMove', id: 2, x: 400, y: 0, time: 40 },
+    { type: 'pointerUp', id: 2, time: 50, onOpenSide: false },
+  ]);
+
+  expect(swiped.pointer?.contacts).toEqual([{ id: 1, x: 300, y: 0 }]);
+  expect(swiped.flights[0].motion.angle).toBeCloseTo(100 * DEFAULT_HINGED_LEAF_CONFIG.dragDegreesPerPixel.touch);
+});
+
+test('turns with a scroll and lets go once the scrolling stops', () => {
+  const scrolled = run(initialHingedLeafState(), [
+    { type: 'wheel', dx: 300, time: 0 },
+    { type: 'wheel', dx: 300, time: 200 },
+  ]);
+
+  expect(scrolled.pointer?.input).toBe('wheel');
+  expect(scrolled.flights[0]).toMatchObject({ held: true, mode: 'opening' });
+  expect(scrolled.flights[0].motion.angle).toBeCloseTo(600 * DEFAULT_HINGED_LEAF_CONFIG.dragDegreesPerPixel.wheel);
+
+  const released = hingedLeafReducer(scrolled, { type: 'wheelEnd' });
+
+  expect(released.pointer).toBeNull();
+  expect(settle(released, 400).state.count).toBe(1);
+});
+
+test('takes a nudge of the wheel for neither a drag nor a click', () => {
+  const nudged = run(initialHingedLeafState(2), [
+    { type: 'wheel', dx: 2, time: 0 },
+    { type: 'wheelEnd' },
+  ]);
+  const dragging = run(initialHingedLeafState(), [
+    { type: 'pointerDown', id: 1, x: 400, y: 0, time: 0, input: 'mouse' },
+    { type: 'wheel', dx: 300, time: 10 },
+  ]);
+
+  expect(nudged).toMatchObject({ count: 2, flights: [], pointer: null });
+  expect(dragging.pointer?.input).toBe('mouse');
+  expect(dragging.flights).toEqual([]);
+});
+
+test('closes on a click over the open leaves and opens anywhere else', () => {
+  const click = (state: HingedLeafState, onOpenSide: boolean) => run(state, [
+    { type: 'pointerDown', id: 1, x: 10, y: 0, time: 0, input: 'mouse' },
+    { type: 'pointerUp', id: 1, time: 0, onOpenSide },
+  ]);
+
+  expect(click(initialHingedLeafState(3), true).flights[0]).toMatchObject({ leaf: 3, mode: 'closing' });
+  expect(click(initialHingedLeafState(3), false).flights[0]).toMatchObject({ leaf: 4, mode: 'opening' });
+  expect(click(initialHingedLeafState(0), true).flights[0]).toMatchObject({ leaf: 1, mode: 'opening' });
+});
+
+test('goes straight to the stops under reduced motion', () => {
+  const config = { ...DEFAULT_HINGED_LEAF_CONFIG, reducedMotion: true };
+  const state = run(initialHingedLeafState(5), [{ type: 'close' }], config);
+
+  expect(state.count).toBe(4);
+  expect(state.flights).toEqual([]);
+  expect(state.settled).toEqual([{ slot: 0, leaf: 5, angle: 0, counted: true }]);
+  expect(isLeafMoving(state)).toBe(false);
+});
+
+test('drops leaves in the air on a jump and keeps counts in range', () => {
+  const config = { ...DEFAULT_HINGED_LEAF_CONFIG, maxCount: 50 };
+  const swinging = run(initialHingedLeafState(), [{ type: 'open' }, { type: 'open' }], config);
+  const jumped = hingedLeafReducer(swinging, { type: 'jump', count: 80 }, config);
+
+  expect(jumped).toMatchObject({ count: 50, flights: [], pending: 0 });
+  expect(hingedLeafReducer(jumped, { type: 'jump', count: -3 }, config).count).toBe(0);
+  expect(hingedLeafReducer(swinging, { type: 'restore', count: 9 }, config).count).toBe(0);
+  expect(hingedLeafReducer(jumped, { type: 'restore', count: 9 }, config).count).toBe(9);
+});
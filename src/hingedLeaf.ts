@@ -0,0 +1,596 @@
+import {
+  isLeafSettled,
+  LeafMotion,
+  OPEN_ANGLE,
+  PointerSample,
+  pointerVelocity,
+  releasedDoors,
+  releaseTarget,
+  stepLeaf,
+  trackPointer,
+  unspentLeafSeconds,
+} from './doorPhysics';
+
+// The interaction behind a hinged leaf, apart from React and the DOM: a pure
+// reducer from pointer, key and frame events to the leaves in motion. The
+// Endless Door drives it through `useHingedLeaf`; a book cover or a cabinet
+// can do the same. Leaves are numbered from 1 and `count` is how many are open.
+
+export type LeafMode = 'opening' | 'closing';
+
+// What's turning the leaf. Each has its own feel, see `dragDegreesPerPixel`.
+export type LeafInput = 'mouse' | 'pen' | 'touch' | 'wheel';
+
+// One leaf in motion. Several can be in the air while a chain of them opens.
+export type LeafFlight = {
+  id: number;
+  // Index of the leaf element this flight moves.
+  slot: number;
+  // Which leaf in the sequence this is, counting from 1.
+  leaf: number;
+  // The stop the leaf left from; settling at the other one changes the count.
+  origin: 'open' | 'shut';
+  mode: LeafMode;
+  motion: LeafMotion;
+  target: number;
+  lastFrameAt: number | null;
+  // Time since lastFrameAt too short for the last frame to step through.
+  unspentSeconds: number;
+  // Under the pointer, so the spring leaves it alone.
+  held: boolean;
+};
+
+// A leaf element showing a particular leaf.
+export type LeafSlot = {
+  slot: number;
+  leaf: number;
+};
+
+export type SettledLeaf = LeafSlot & {
+  // The stop it came to rest at.
+  angle: number;
+  // Whether it reached the other stop from the one it left, changing the count.
+  counted: boolean;
+};
+
+// A pressed pointer where it last was.
+export type LeafContact = {
+  id: number;
+  x: number;
+  y: number;
+};
+
+export type LeafPointer = {
+  input: LeafInput;
+  // Fingers down for a two-finger swipe; the drag follows their midpoint.
+  contacts: LeafContact[];
+  startX: number;
+  startY: number;
+  startAngle: number;
+  // Drag angle before clamping to the stops, for carrying through several leaves.
+  rawAngle: number;
+  moved: boolean;
+  flightId: number | null;
+  samples: PointerSample[];
+};
+
+export type HingedLeafState = {
+  count: number;
+  flights: LeafFlight[];
+  // Leaves queued behind those in flight: positive opens, negative closes.
+  pending: number;
+  // Leaves that have just come to rest open. They hold the open position
+  // until the renderer has drawn them in the open stack, so nothing flickers.
+  handoff: LeafSlot[];
+  pointer: LeafPointer | null;
+  // Leaf elements needed so far. It never shrinks, so an element isn't
+  // unmounted under a leaf that's about to swing again.
+  slots: number;
+  nextFlightId: number;
+  // Leaves that came to rest during the last event, for sounds and messages.
+  settled: SettledLeaf[];
+};
+
+export type HingedLeafEvent =
+  | { type: 'open'; repeat?: boolean }
+  | { type: 'close'; repeat?: boolean }
+  // Straight to a count, dropping any leaves in the air and leaves queued.
+  | { type: 'jump'; count: number }
+  // A saved count, applied only while nothing is moving.
+  | { type: 'restore'; count: number }
+  | { type: 'pointerDown'; id: number; x: number; y: number; time: number; input: LeafInput }
+  | { type: 'pointerMove'; id: number; x: number; y: number; time: number }
+  // `onOpenSide` is a click over the open leaves, which closes rather than opens.
+  | { type: 'pointerUp'; id: number; time: number; onOpenSide: boolean }
+  // Scrolled `dx` pixels, positive to the left, by a wheel or a trackpad. A
+  // wheel gesture has no release of its own; `wheelEnd` marks the pause after.
+  | { type: 'wheel'; dx: number; time: number }
+  | { type: 'wheelEnd' }
+  | { type: 'tick'; now: number }
+  // The renderer has drawn the leaves waiting in `handoff`.
+  | { type: 'handoff' };
+
+export type HingedLeafConfig = {
+  maxCount: number;
+  // Leaves that can swing at once, and leaves that can wait behind them.
+  maxFlights: number;
+  maxPending: number;
+  // A queued leaf starts once the leaf ahead of it has swung this far.
+  chainAngle: number;
+  dragDegreesPerPixel: Record<LeafInput, number>;
+  // How far, in pixels, a press travels before it counts as a drag.
+  dragThreshold: number;
+  // Leaves jump straight to their stops instead of swinging.
+  reducedMotion: boolean;
+};
+
+export const DEFAULT_HINGED_LEAF_CONFIG: HingedLeafConfig = {
+  maxCount: Number.MAX_SAFE_INTEGER,
+  maxFlights: 4,
+  maxPending: 8,
+  chainAngle: 54,
+  // A thumb on a phone covers few pixels, so touch turns further for each;
+  // a wheel notch is a hundred pixels or so at once, so it turns less.
+  dragDegreesPerPixel: {
+    mouse: 0.38,
+    pen: 0.38,
+    touch: 0.6,
+    wheel: 0.24,
+  },
+  dragThreshold: 5,
+  reducedMotion: false,
+};
+
+// Wheel gestures are a pointer of their own, with an id no real pointer has.
+const WHEEL_POINTER_ID = -1;
+
+function clamp(value: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, value));
+}
+
+export function initialHingedLeafState(count = 0, config = DEFAULT_HINGED_LEAF_CONFIG): HingedLeafState {
+  return {
+    count: clamp(Math.floor(count), 0, config.maxCount),
+    flights: [],
+    pending: 0,
+    handoff: [],
+    pointer: null,
+    slots: 1,
+    nextFlightId: 1,
+    settled: [],
+  };
+}
+
+// Open leaves that aren't already swinging shut.
+export const closableLeaves = (state: HingedLeafState) =>
+  state.count - state.flights.filter((flight) => flight.origin === 'open').length;
+
+// Whether another frame is wanted: something swinging, or something queued.
+export const isLeafMoving = (state: HingedLeafState) =>
+  state.flights.some((flight) => !flight.held) || state.pending !== 0;
+
+export const holdsPointer = (state: HingedLeafState, id: number) =>
+  state.pointer?.contacts.some((contact) => contact.id === id) ?? false;
+
+// The newest leaf decides which way the whole thing reads as moving.
+export const leafMode = (state: HingedLeafState): LeafMode | 'idle' =>
+  state.flights[state.flights.length - 1]?.mode ?? 'idle';
+
+// The leaf each element shows while it swings or waits to be handed on, by
+// slot; null slots show whatever waits in the doorway.
+export function slotLeaves(state: HingedLeafState) {
+  const leaves: Array<number | null> = [];
+  [...state.handoff, ...state.flights].forEach(({ slot, leaf }) => {
+    leaves[slot] = leaf;
+  });
+  return Array.from(leaves, (leaf) => leaf ?? null);
+}
+
+// The reducer works on a copy it owns, so the steps below can mutate freely.
+const draftOf = (state: HingedLeafState): HingedLeafState => ({
+  ...state,
+  flights: state.flights.map((flight) => ({ ...flight })),
+  handoff: [...state.handoff],
+  pointer: state.pointer && { ...state.pointer, contacts: [...state.pointer.contacts] },
+  settled: [],
+});
+
+const heldFlight = (state: HingedLeafState) =>
+  state.flights.find((flight) => flight.id === state.pointer?.flightId) ?? null;
+
+const dragVelocity = ({ input, samples }: LeafPointer, config: HingedLeafConfig) =>
+  // Dragging left opens, so the leaf turns against the pointer's x velocity.
+  -pointerVelocity(samples) * config.dragDegreesPerPixel[input];
+
+const midpoint = (contacts: LeafContact[]) => ({
+  x: contacts.reduce((sum, contact) => sum + contact.x, 0) / contacts.length,
+  y: contacts.reduce((sum, contact) => sum + contact.y, 0) / contacts.length,
+});
+
+// A finger down or up moves the midpoint; start the drag afresh from there
+// so the leaf doesn't jump.
+function rebasePointer(pointer: LeafPointer, time: number) {
+  const { x, y } = midpoint(pointer.contacts);
+  pointer.startX = x;
+  pointer.startY = y;
+  pointer.startAngle = pointer.rawAngle;
+  pointer.samples = [{ time, x }];
+}
+
+function launchFlight(state: HingedLeafState, mode: LeafMode, now: number | null) {
+  const usedSlots = new Set(state.flights.map((flight) => flight.slot));
+  let slot = 0;
+  while (usedSlots.has(slot)) {
+    slot += 1;
+  }
+
+  state.handoff = state.handoff.filter((resting) => resting.slot !== slot);
+  state.slots = Math.max(state.slots, slot + 1);
+
+  // An opening leaf is the first past those already swinging open; a closing
+  // one is the top of the open stack.
+  const leaf = mode === 'opening'
+    ? state.count + state.flights.filter((flight) => flight.origin === 'shut').length + 1
+    : closableLeaves(state);
+
+  const flight: LeafFlight = {
+    id: state.nextFlightId,
+    slot,
+    leaf,
+    origin: mode === 'opening' ? 'shut' : 'open',
+    mode,
+    motion: { angle: mode === 'opening' ? 0 : OPEN_ANGLE, velocity: 0 },
+    target: mode === 'opening' ? OPEN_ANGLE : 0,
+    lastFrameAt: now,
+    unspentSeconds: 0,
+    held: false,
+  };
+  state.nextFlightId += 1;
+  state.flights.push(flight);
+  return flight;
+}
+
+function settleFlight(state: HingedLeafState, flight: LeafFlight, config: HingedLeafConfig) {
+  state.flights = state.flights.filter((candidate) => candidate.id !== flight.id);
+  const opened = flight.target === OPEN_ANGLE;
+  const counted = opened ? flight.origin === 'shut' : flight.origin === 'open';
+
+  if (counted) {
+    state.count = clamp(state.count + (opened ? 1 : -1), 0, config.maxCount);
+  }
+  if (opened) {
+    state.handoff.push({ slot: flight.slot, leaf: flight.leaf });
+  }
+  state.settled.push({ slot: flight.slot, leaf: flight.leaf, angle: flight.target, counted });
+}
+
+// Starts queued leaves once the leaf ahead has swung far enough.
+function launchPending(state: HingedLeafState, now: number, config: HingedLeafConfig) {
+  while (state.pending !== 0 && state.flights.length < config.maxFlights) {
+    const opening = state.pending > 0;
+    const leader = state.flights[state.flights.length - 1];
+    const leaderReady = !leader || (
+      !leader.held
+      && leader.mode === (opening ? 'opening' : 'closing')
+      && (opening
+        ? leader.motion.angle >= config.chainAngle
+        : leader.motion.angle <= OPEN_ANGLE - config.chainAngle)
+    );
+
+    if (!leaderReady) {
+      return;
+    }
+
+    if (!opening && closableLeaves(state) <= 0) {
+      state.pending = 0;
+      return;
+    }
+
+    launchFlight(state, opening ? 'opening' : 'closing', now);
+    state.pending += opening ? -1 : 1;
+  }
+}
+
+function tick(state: HingedLeafState, now: number, config: HingedLeafConfig) {
+  state.flights.forEach((flight) => {
+    if (flight.held) {
+      return;
+    }
+
+    if (flight.lastFrameAt !== null) {
+      const seconds = flight.unspentSeconds + (now - flight.lastFrameAt) / 1000;
+      flight.motion = stepLeaf(flight.motion, flight.target, seconds);
+      flight.unspentSeconds = unspentLeafSeconds(seconds);
+    }
+    flight.lastFrameAt = now;
+  });
+
+  launchPending(state, now, config);
+
+  state.flights
+    .filter((flight) => !flight.held && isLeafSettled(flight.motion, flight.target))
+    .forEach((flight) => settleFlight(state, flight, config));
+}
+
+// Under reduced motion every leaf, and every queued leaf, goes straight to its
+// stop; otherwise the frames take it from here.
+function startMotion(state: HingedLeafState, config: HingedLeafConfig) {
+  if (!config.reducedMotion) {
+    return;
+  }
+
+  state.flights
+    .filter((flight) => !flight.held)
+    .forEach((flight) => {
+      flight.motion = { angle: flight.target, velocity: 0 };
+      settleFlight(state, flight, config);
+    });
+
+  while (state.pending !== 0) {
+    const opening = state.pending > 0;
+    state.pending += opening ? -1 : 1;
+    if (!opening && closableLeaves(state) <= 0) {
+      state.pending = 0;
+      break;
+    }
+
+    settleFlight(state, launchFlight(state, opening ? 'opening' : 'closing', null), config);
+  }
+}
+
+function turnFlight(flight: LeafFlight, mode: LeafMode) {
+  flight.mode = mode;
+  flight.target = mode === 'opening' ? OPEN_ANGLE : 0;
+  flight.held = false;
+}
+
+// A press while a leaf is swinging the same way queues the next one; a held
+// key keeps exactly one queued so the chain stops when it's let go.
+function queueLeaf(state: HingedLeafState, direction: 1 | -1, repeat: boolean, config: HingedLeafConfig) {
+  const pending = state.pending * direction;
+  const queued = repeat ? Math.max(pending, 1) : Math.min(pending + 1, config.maxPending);
+  state.pending = queued * direction;
+}
+
+function openLeaf(state: HingedLeafState, repeat: boolean, config: HingedLeafConfig) {
+  const leader = state.flights[state.flights.length - 1];
+
+  if (leader?.mode === 'closing') {
+    turnFlight(leader, 'opening');
+    state.pending = 0;
+  } else if (leader) {
+    leader.held = false;
+    queueLeaf(state, 1, repeat, config);
+  } else {
+    launchFlight(state, 'opening', null);
+  }
+
+  startMotion(state, config);
+}
+
+function closeLeaf(state: HingedLeafState, repeat: boolean, config: HingedLeafConfig) {
+  const leader = state.flights[state.flights.length - 1];
+
+  if (leader?.mode === 'opening') {
+    turnFlight(leader, 'closing');
+    state.pending = 0;
+  } else if (leader) {
+    leader.held = false;
+    queueLeaf(state, -1, repeat, config);
+  } else if (closableLeaves(state) > 0) {
+    launchFlight(state, 'closing', null);
+  } else {
+    return;
+  }
+
+  startMotion(state, config);
+}
+
+function pressPointer(state: HingedLeafState, event: Extract<HingedLeafEvent, { type: 'pointerDown' }>) {
+  const { id, x, y, time, input } = event;
+  if (state.pointer?.input === 'touch' && input === 'touch') {
+    state.pointer.contacts = [...state.pointer.contacts.filter((contact) => contact.id !== id), { id, x, y }];
+    rebasePointer(state.pointer, time);
+    return state.pointer;
+  }
+
+  // Catch the newest leaf where it is; any others carry on to their stops.
+  const flight = state.flights[state.flights.length - 1] ?? null;
+  if (flight) {
+    flight.held = true;
+    flight.lastFrameAt = null;
+    flight.unspentSeconds = 0;
+  }
+  state.pending = 0;
+
+  const startAngle = flight?.motion.angle ?? 0;
+  const pointer: LeafPointer = {
+    input,
+    contacts: [{ id, x, y }],
+    startX: x,
+    startY: y,
+    startAngle,
+    rawAngle: startAngle,
+    moved: false,
+    flightId: flight?.id ?? null,
+    samples: [{ time, x }],
+  };
+  state.pointer = pointer;
+  return pointer;
+}
+
+function dragPointer(
+  state: HingedLeafState,
+  event: Extract<HingedLeafEvent, { type: 'pointerMove' }>,
+  config: HingedLeafConfig
+) {
+  const { pointer } = state;
+  const contact = pointer?.contacts.findIndex(({ id }) => id === event.id) ?? -1;
+  if (!pointer || contact === -1) {
+    return;
+  }
+
+  pointer.contacts[contact] = { id: event.id, x: event.x, y: event.y };
+  const { x, y } = midpoint(pointer.contacts);
+  pointer.samples = trackPointer(pointer.samples, { time: event.time, x });
+
+  const dx = pointer.startX - x;
+  const dy = pointer.startY - y;
+  if (Math.hypot(dx, dy) > config.dragThreshold) {
+    pointer.moved = true;
+  }
+
+  let flight = heldFlight(state);
+  if (!flight && pointer.moved) {
+    flight = launchFlight(state, dx < 0 && closableLeaves(state) > 0 ? 'closing' : 'opening', null);
+    flight.held = true;
+    pointer.flightId = flight.id;
+    pointer.startAngle = flight.motion.angle;
+  }
+
+  if (flight) {
+    pointer.rawAngle = pointer.startAngle + dx * config.dragDegreesPerPixel[pointer.input];
+    flight.motion = {
+      angle: clamp(pointer.rawAngle, 0, OPEN_ANGLE),
+      velocity: dragVelocity(pointer, config),
+    };
+  }
+}
+
+function releasePointer(
+  state: HingedLeafState,
+  event: Extract<HingedLeafEvent, { type: 'pointerUp' }>,
+  config: HingedLeafConfig
+) {
+  const { pointer } = state;
+  if (!pointer || !holdsPointer(state, event.id)) {
+    return;
+  }
+
+  // One finger lifted from a two-finger swipe; the other carries on.
+  if (pointer.contacts.length > 1) {
+    pointer.contacts = pointer.contacts.filter((contact) => contact.id !== event.id);
+    rebasePointer(pointer, event.time);
+    return;
+  }
+
+  const flight = heldFlight(state);
+  state.pointer = null;
+
+  if (!pointer.moved) {
+    if (flight) {
+      flight.held = false;
+    }
+
+    if (state.count > 0 && event.onOpenSide) {
+      closeLeaf(state, false, config);
+    } else {
+      openLeaf(state, false, config);
+    }
+    return;
+  }
+
+  if (!flight) {
+    return;
+  }
+
+  const velocity = dragVelocity(pointer, config);
+  const release: LeafMotion = { angle: pointer.rawAngle, velocity };
+
+  flight.motion = { angle: flight.motion.angle, velocity };
+  turnFlight(flight, releaseTarget(release) === OPEN_ANGLE ? 'opening' : 'closing');
+  state.pending = clamp(releasedDoors(release), -config.maxPending, config.maxPending);
+  startMotion(state, config);
+}
+
+// Scrolling drags from wherever the last scroll left off, unless a real
+// pointer already has the leaf.
+function turnWheel(state: HingedLeafState, event: Extract<HingedLeafEvent, { type: 'wheel' }>, config: HingedLeafConfig) {
+  if (state.pointer && state.pointer.input !== 'wheel') {
+    return;
+  }
+
+  const pointer = state.pointer ?? pressPointer(state, {
+    type: 'pointerDown',
+    id: WHEEL_POINTER_ID,
+    x: 0,
+    y: 0,
+    time: event.time,
+    input: 'wheel',
+  });
+  const [{ x }] = pointer.contacts;
+  dragPointer(state, { type: 'pointerMove', id: WHEEL_POINTER_ID, x: x - event.dx, y: 0, time: event.time }, config);
+}
+
+// The end of a scroll lets go like the end of a drag. A scroll too small to
+// count is no click, though: the leaf it caught just carries on.
+function endWheel(state: HingedLeafState, config: HingedLeafConfig) {
+  const { pointer } = state;
+  if (pointer?.input !== 'wheel') {
+    return;
+  }
+
+  if (pointer.moved) {
+    releasePointer(state, { type: 'pointerUp', id: WHEEL_POINTER_ID, time: 0, onOpenSide: false }, config);
+    return;
+  }
+
+  const flight = heldFlight(state);
+  if (flight) {
+    flight.held = false;
+  }
+  state.pointer = null;
+}
+
+export function hingedLeafReducer(
+  state: HingedLeafState,
+  event: HingedLeafEvent,
+  config: HingedLeafConfig = DEFAULT_HINGED_LEAF_CONFIG
+): HingedLeafState {
+  const next = draftOf(state);
+
+  switch (event.type) {
+    case 'open':
+      openLeaf(next, event.repeat ?? false, config);
+      break;
+    case 'close':
+      closeLeaf(next, event.repeat ?? false, config);
+      break;
+    case 'jump':
+      next.flights = [];
+      next.pending = 0;
+      if (next.pointer) {
+        next.pointer.flightId = null;
+      }
+      next.count = clamp(Math.floor(event.count), 0, config.maxCount);
+      break;
+    case 'restore':
+      if (next.flights.length === 0) {
+        next.count = clamp(Math.floor(event.count), 0, config.maxCount);
+      }
+      break;
+    case 'pointerDown':
+      pressPointer(next, event);
+      break;
+    case 'pointerMove':
+      dragPointer(next, event, config);
+      break;
+    case 'pointerUp':
+      releasePointer(next, event, config);
+      break;
+    case 'wheel':
+      turnWheel(next, event, config);
+      break;
+    case 'wheelEnd':
+      endWheel(next, config);
+      break;
+    case 'tick':
+      tick(next, event.now, config);
+      break;
+    case 'handoff':
+      next.handoff = [];
+      break;
+  }
+
+  return next;
+}
@@ -11,15 +11,22 @@ if (process.env.NODE_ENV === 'development') {
 
 animateFavicon();
 
-const root = ReactDOM.createRoot(
-  document.getElementById('root') as HTMLElement
-);
-root.render(
+const container = document.getElementById('root') as HTMLElement;
+const app = (
   <React.StrictMode>
     <App />
   </React.StrictMode>
 );
 
+// scripts/prerender.js records which location each static page was rendered
+// for. Anything else (404.html at an unknown path, query aliases) renders fresh.
+const { pathname, search } = window.location;
+if (container.dataset.prerenderedLocation === `${pathname}${search}`) {
+  ReactDOM.hydrateRoot(container, app);
+} else {
+  ReactDOM.createRoot(container).render(app);
+}
+
 // If you want to start measuring performance in your app, pass a function
 // to log results (for example: reportWebVitals(console.log))
 // or send to an analytics endpoint. Learn more: https://bit.ly/CRA-vitals
@@ -0,0 +1,29 @@
+import React from 'react';
+import { Link } from '../router';
+
+type MinimalHeaderProps = {
+  current?: 'now';
+};
+
+export function MinimalHeader({ current }: MinimalHeaderProps) {
+  return (
+    <header className="minimal-header">
+      <Link className="minimal-name" href="/" aria-label="Ansh Sancheti — Home">AS</Link>
+      <nav aria-label="Primary navigation">
+        <Link href="/now/" aria-current={current === 'now' ? 'page' : undefined}>Now</Link>
+      </nav>
+    </header>
+  );
+}
+
+export function MinimalFooter() {
+  return (
+    <footer className="minimal-footer">
+      <div>
+        <a href="https://github.com/AnshSancheti">GitHub</a>
+        <a href="https://www.linkedin.com/in/ansh-sancheti-10b043aa">LinkedIn</a>
+        <a href="mailto:ansh.sancheti@gmail.com">Email</a>
+      </div>
+    </footer>
+  );
+}
@@ -0,0 +1,24 @@
+import React from 'react';
+import { Link, useRouter } from '../router';
+import { MinimalFooter, MinimalHeader } from './MinimalChrome';
+import './portfolio.css';
+
+export default function NotFoundPage() {
+  const { location } = useRouter();
+
+  return (
+    <div className="minimal-page">
+      <MinimalHeader />
+
+      <main className="minimal-not-found" aria-labelledby="not-found-heading">
+        <h1 id="not-found-heading">Nothing behind this door.</h1>
+        <p>
+          There is no page at <code>{location.pathname}</code>.{' '}
+          <Link href="/">Back to the project index</Link>.
+        </p>
+      </main>
+
+      <MinimalFooter />
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import React from 'react';
+import { Link } from '../router';
+import { formatNowDate, nowSnapshotPath, nowSnapshots } from './content';
+import { MinimalFooter, MinimalHeader } from './MinimalChrome';
+import './portfolio.css';
+
+export default function NowArchivePage() {
+  return (
+    <div className="minimal-page">
+      <MinimalHeader current="now" />
+
+      <main className="minimal-now-archive" aria-labelledby="now-archive-heading">
+        <Link className="minimal-back" href="/now/">Now</Link>
+
+        <h1 id="now-archive-heading">Earlier updates</h1>
+
+        <ol className="minimal-now-history">
+          {nowSnapshots.map((snapshot) => (
+            <li key={snapshot.updated}>
+              <Link href={nowSnapshotPath(snapshot)}>
+                <time dateTime={snapshot.updated}>
+                  {formatNowDate(snapshot.updated, { day: true })}
+                </time>
+              </Link>
+              <p>{snapshot.summary}</p>
+            </li>
+          ))}
+        </ol>
+      </main>
+
+      <MinimalFooter />
+    </div>
+  );
+}
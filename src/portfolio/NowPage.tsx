@@ -1,43 +1,70 @@
 import React from 'react';
-import now from './now.json';
+import type { RouteComponentProps } from '../routes';
+import { Link } from '../router';
+import {
+  currentNow,
+  findNowSnapshot,
+  formatNowDate,
+  NowBlock,
+} from './content';
+import { MinimalFooter, MinimalHeader } from './MinimalChrome';
+import NotFoundPage from './NotFoundPage';
 import './portfolio.css';
 
-export default function NowPage() {
+function NowBlockView({ block }: { block: NowBlock }) {
+  switch (block.type) {
+    case 'emphasis':
+      return <strong>{block.text}</strong>;
+    case 'link':
+      return (
+        <a href={block.href}>
+          {block.emphasis ? <strong>{block.text}</strong> : block.text}
+        </a>
+      );
+    default:
+      return <>{block.text}</>;
+  }
+}
+
+// Renders /now/ and the dated /now/<date>/ permalinks.
+export default function NowPage({ params }: RouteComponentProps) {
+  const snapshot = params.date ? findNowSnapshot(params.date) : currentNow;
+  if (!snapshot) {
+    return <NotFoundPage />;
+  }
+
+  const isCurrent = snapshot === currentNow;
+
   return (
     <div className="minimal-page">
-      <header className="minimal-header">
-        <a className="minimal-name" href="/" aria-label="Ansh Sancheti — Home">AS</a>
-        <nav aria-label="Primary navigation">
-          <a href="/now/" aria-current="page">Now</a>
-        </nav>
-      </header>
+      <MinimalHeader current="now" />
 
       <main className="minimal-now" aria-label="Now">
-        <div className="minimal-now-copy">
-          <p>
-            {now.employment.prefix}
-            <a href={now.employment.href}><strong>{now.employment.company}</strong></a>.
+        {!isCurrent && (
+          <p className="minimal-now-notice">
+            This is an older update, from {formatNowDate(snapshot.updated)}.{' '}
+            <Link href="/now/">Read the current one</Link>.
           </p>
-          <p>
-            {now.artificialTaste.prefix}<strong>{now.artificialTaste.title}</strong>.{' '}
-            {now.artificialTaste.reflection}
-          </p>
-          <p>
-            {now.forecastBench.prefix}
-            <a href={now.forecastBench.href}><strong>{now.forecastBench.title}</strong></a>
-            {now.forecastBench.suffix}
-          </p>
-          <span>Updated {now.updated}</span>
+        )}
+
+        <div className="minimal-now-copy">
+          {snapshot.entries.map((entry, entryIndex) => (
+            <p key={entryIndex}>
+              {entry.map((block, blockIndex) => (
+                <NowBlockView key={blockIndex} block={block} />
+              ))}
+            </p>
+          ))}
+          <span>
+            Updated{' '}
+            <time dateTime={snapshot.updated}>{formatNowDate(snapshot.updated)}</time>
+            {' · '}
+            <Link href="/now/archive/">Earlier updates</Link>
+          </span>
         </div>
       </main>
 
-      <footer className="minimal-footer">
-        <div>
-          <a href="https://github.com/AnshSancheti">GitHub</a>
-          <a href="https://www.linkedin.com/in/ansh-sancheti-10b043aa">LinkedIn</a>
-          <a href="mailto:ansh.sancheti@gmail.com">Email</a>
-        </div>
-      </footer>
+      <MinimalFooter />
     </div>
   );
 }
@@ -1,16 +1,56 @@
 import React from 'react';
-import projects from './projects.json';
+import { Link, useRouter } from '../router';
+import {
+  artifacts,
+  filterProjectsByTag,
+  groupProjectsByYear,
+  opensInNewTab,
+  Project,
+  projectPath,
+  projects,
+  projectTagList,
+  tagQuery,
+} from './content';
+import { MinimalFooter, MinimalHeader } from './MinimalChrome';
 import './portfolio.css';
 
+function ProjectRow({ project }: { project: Project }) {
+  const newTab = opensInNewTab(project);
+  const titleId = `project-${project.slug}`;
+
+  return (
+    <div className="minimal-project-row">
+      <a
+        className="minimal-project"
+        href={project.href}
+        target={newTab ? '_blank' : undefined}
+        rel={newTab ? 'noreferrer' : undefined}
+      >
+        <span className="minimal-project-copy">
+          <strong id={titleId}>{project.title}</strong>
+          <span>{project.description}</span>
+        </span>
+        <span className="minimal-arrow minimal-arrow--external" aria-hidden="true" />
+      </a>
+      <Link
+        className="minimal-project-notes"
+        href={projectPath(project)}
+        aria-describedby={titleId}
+      >
+        Notes
+      </Link>
+    </div>
+  );
+}
+
 export default function PortfolioPrototype() {
+  const { location } = useRouter();
+  const activeTag = tagQuery(location.search);
+  const yearGroups = groupProjectsByYear(filterProjectsByTag(projects, activeTag));
+
   return (
     <div className="minimal-page">
-      <header className="minimal-header">
-        <a className="minimal-name" href="/" aria-label="Ansh Sancheti — Home">AS</a>
-        <nav aria-label="Primary navigation">
-          <a href="/now/">Now</a>
-        </nav>
-      </header>
+      <MinimalHeader />
 
       <main id="top">
         <section className="minimal-work" id="work" aria-labelledby="work-heading">
@@ -19,26 +59,33 @@ export default function PortfolioPrototype() {
             <span>Some projects take a few seconds to wake up.</span>
           </div>
 
-          <div className="minimal-projects">
-            {projects.map((project) => {
-              const opensInNewTab = project.href.startsWith('http') || project.newTab;
+          <div className="minimal-tags" role="group" aria-label="Filter projects by tag">
+            <Link href="/" aria-current={activeTag ? undefined : 'true'} scroll={false}>All</Link>
+            {projectTagList().map((tag) => (
+              <Link
+                aria-current={activeTag === tag.toLowerCase() ? 'true' : undefined}
+                href={`/?tag=${encodeURIComponent(tag.toLowerCase())}`}
+                key={tag}
+                scroll={false}
+              >
+                {tag}
+              </Link>
+            ))}
+          </div>
 
-              return (
-                <a
-                  className="minimal-project"
-                  href={project.href}
-                  target={opensInNewTab ? '_blank' : undefined}
-                  rel={opensInNewTab ? 'noreferrer' : undefined}
-                  key={project.title}
-                >
-                  <span className="minimal-project-copy">
-                    <strong>{project.title}</strong>
-                    <span>{project.description}</span>
-                  </span>
-                  <span className="minimal-arrow minimal-arrow--external" aria-hidden="true" />
-                </a>
-              );
-            })}
+          <div className="minimal-projects">
+            {yearGroups.map(({ year, projects: yearProjects }) => (
+              <section className="minimal-year" aria-labelledby={`work-${year}`} key={year}>
+                <h3 id={`work-${year}`}>{year}</h3>
+                {yearProjects.map((project) => <ProjectRow key={project.slug} project={project} />)}
+              </section>
+            ))}
+            {yearGroups.length === 0 && (
+              <p className="minimal-empty">
+                Nothing tagged “{activeTag}” yet.{' '}
+                <Link href="/" scroll={false}>Show everything</Link>.
+              </p>
+            )}
           </div>
         </section>
 
@@ -51,22 +98,18 @@ export default function PortfolioPrototype() {
           <div className="minimal-column">
             <h2>Artifacts</h2>
             <div className="minimal-links">
-              <a href="/door/">Endless Door <span className="minimal-arrow" aria-hidden="true" /></a>
-              <a href="/nyc-tree-map/">NYC Tree Foliage <span className="minimal-arrow" aria-hidden="true" /></a>
-              <a href="/us-voter-turnout/">US Voter Turnout <span className="minimal-arrow" aria-hidden="true" /></a>
+              {artifacts.map((artifact) => (
+                <Link href={artifact.href} key={artifact.href}>
+                  {artifact.title} <span className="minimal-arrow" aria-hidden="true" />
+                </Link>
+              ))}
             </div>
           </div>
         </section>
 
       </main>
 
-      <footer className="minimal-footer">
-        <div>
-          <a href="https://github.com/AnshSancheti">GitHub</a>
-          <a href="https://www.linkedin.com/in/ansh-sancheti-10b043aa">LinkedIn</a>
-          <a href="mailto:ansh.sancheti@gmail.com">Email</a>
-        </div>
-      </footer>
+      <MinimalFooter />
     </div>
   );
 }
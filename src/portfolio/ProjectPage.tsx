@@ -0,0 +1,80 @@
+import React from 'react';
+import type { RouteComponentProps } from '../routes';
+import { Link } from '../router';
+import { findProject, hasColdStart, opensInNewTab } from './content';
+import { MinimalFooter, MinimalHeader } from './MinimalChrome';
+import NotFoundPage from './NotFoundPage';
+import './portfolio.css';
+
+export default function ProjectPage({ params }: RouteComponentProps) {
+  const project = findProject(params.slug);
+  if (!project) {
+    return <NotFoundPage />;
+  }
+
+  const newTab = opensInNewTab(project);
+  const outboundLinks = [
+    { label: `Open ${project.title}`, href: project.href, newTab },
+    ...(project.links ?? []).map((link) => ({ ...link, newTab: link.href.startsWith('http') })),
+  ];
+
+  return (
+    <div className="minimal-page">
+      <MinimalHeader />
+
+      <main className="minimal-project-page" aria-labelledby="project-heading">
+        <Link className="minimal-back" href="/">Selected work</Link>
+
+        <h1 id="project-heading">{project.title}</h1>
+        <p className="minimal-project-lede">{project.description}</p>
+
+        <dl className="minimal-project-facts">
+          <div>
+            <dt>Year</dt>
+            <dd>{project.year}</dd>
+          </div>
+          <div>
+            <dt>Tags</dt>
+            <dd>{project.tags.join(', ')}</dd>
+          </div>
+        </dl>
+
+        {project.writeUp && (
+          <div className="minimal-project-writeup">
+            {project.writeUp.map((paragraph) => <p key={paragraph}>{paragraph}</p>)}
+          </div>
+        )}
+
+        {project.screenshots && project.screenshots.length > 0 && (
+          <div className="minimal-project-screenshots">
+            {project.screenshots.map((screenshot) => (
+              <figure key={screenshot.src}>
+                <img src={screenshot.src} alt={screenshot.alt} loading="lazy" />
+              </figure>
+            ))}
+          </div>
+        )}
+
+        <section className="minimal-project-links" aria-label="Links">
+          <div className="minimal-links">
+            {outboundLinks.map((link) => (
+              <a
+                href={link.href}
+                key={link.href}
+                target={link.newTab ? '_blank' : undefined}
+                rel={link.newTab ? 'noreferrer' : undefined}
+              >
+                {link.label} <span className="minimal-arrow minimal-arrow--external" aria-hidden="true" />
+              </a>
+            ))}
+          </div>
+          {hasColdStart(project) && (
+            <span>The app sleeps when nobody is using it, so the first load can take a few seconds.</span>
+          )}
+        </section>
+      </main>
+
+      <MinimalFooter />
+    </div>
+  );
+}
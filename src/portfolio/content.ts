@@ -0,0 +1,96 @@
+import artifactList from './artifacts.json';
+import doorMilestoneList from './doorMilestones.json';
+import nowJson from './now.json';
+import projectList from './projects.json';
+import {
+  NowSnapshot,
+  Project,
+  validateArtifacts,
+  validateDoorMilestones,
+  validateNow,
+  validateProjects,
+} from './schema';
+
+export type {
+  Artifact,
+  DoorMilestone,
+  NowBlock,
+  NowEntry,
+  NowSnapshot,
+  Project,
+  ProjectLink,
+  ProjectScreenshot,
+  ProjectTag,
+} from './schema';
+
+export const projects = validateProjects(projectList);
+
+export const artifacts = validateArtifacts(artifactList);
+
+export const doorMilestones = validateDoorMilestones(doorMilestoneList);
+
+export const findDoorMilestone = (door: number) =>
+  doorMilestones.find((milestone) => milestone.door === door);
+
+// Newest first; the first snapshot is what /now/ shows.
+export const nowSnapshots = validateNow(nowJson);
+
+export const currentNow = nowSnapshots[0];
+
+export const findNowSnapshot = (date: string) =>
+  nowSnapshots.find((snapshot) => snapshot.updated === date);
+
+export const nowSnapshotPath = ({ updated }: Pick<NowSnapshot, 'updated'>) => `/now/${updated}/`;
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+// Formats an ISO date without going through Date, so the static markup
+// doesn't depend on the build machine's time zone.
+export const formatNowDate = (date: string, { day = false } = {}) => {
+  const [year, month, dayOfMonth] = date.split('-').map(Number);
+  const monthName = MONTHS[month - 1];
+  return day ? `${monthName} ${dayOfMonth}, ${year}` : `${monthName} ${year}`;
+};
+
+export const nowPlainText = (snapshot: NowSnapshot) => snapshot.entries
+  .map((entry) => entry.map((block) => block.text).join('').trim())
+  .join(' ');
+
+export const findArtifact = (href: string) =>
+  artifacts.find((artifact) => artifact.href === href);
+
+export const findProject = (slug: string) =>
+  projects.find((project) => project.slug === slug);
+
+export const projectPath = ({ slug }: Pick<Project, 'slug'>) => `/work/${slug}/`;
+
+export const opensInNewTab = (project: Project) =>
+  project.href.startsWith('http') || Boolean(project.newTab);
+
+// The fly.dev apps stop their machines when idle; the first request wakes them.
+export const hasColdStart = ({ href }: Pick<Project, 'href'>) =>
+  /^https:\/\/[^/]+\.fly\.dev\//.test(href);
+
+export const projectTagList = () => Array.from(new Set(projects.flatMap((project) => project.tags)))
+  .sort((a, b) => a.localeCompare(b, 'en', { sensitivity: 'base' }));
+
+export const tagQuery = (search: string) =>
+  new URLSearchParams(search).get('tag')?.trim().toLowerCase() || null;
+
+export const filterProjectsByTag = (list: Project[], tag: string | null) => (tag
+  ? list.filter((project) => project.tags.some((projectTag) => projectTag.toLowerCase() === tag))
+  : list);
+
+// Newest year first; projects keep their hand-picked order within a year.
+export const groupProjectsByYear = (list: Project[]) => {
+  const years = Array.from(new Set(list.map((project) => project.year)))
+    .sort((a, b) => b - a);
+
+  return years.map((year) => ({
+    year,
+    projects: list.filter((project) => project.year === year),
+  }));
+};
@@ -0,0 +1,105 @@
+import doorMilestoneList from './doorMilestones.json';
+import nowJson from './now.json';
+import projectList from './projects.json';
+import {
+  ContentError,
+  validateDoorMilestones,
+  validateNow,
+  validateProjects,
+} from './schema';
+
+const project = {
+  slug: 'lot-shot',
+  title: 'Lot Shot',
+  year: 2026,
+  updated: '2026-10-19',
+  tags: ['game', 'art'],
+  description: 'Guess which artwork sold for more.',
+  href: 'https://lot-shot.fly.dev/',
+  writeUp: ['A guessing game built on auction results.'],
+};
+
+const issuesFor = (value: unknown) => {
+  try {
+    validateProjects(value);
+  } catch (error) {
+    expect(error).toBeInstanceOf(ContentError);
+    return (error as ContentError).issues;
+  }
+
+  throw new Error('Expected the content to be rejected.');
+};
+
+test('accepts the content that ships with the site', () => {
+  expect(validateProjects(projectList)).toHaveLength(projectList.length);
+  expect(validateNow(nowJson)[0].worksFor).toBe('Teleskope');
+  expect(validateDoorMilestones(doorMilestoneList)).toHaveLength(doorMilestoneList.length);
+});
+
+test('reports missing fields and misspelled keys', () => {
+  const { description, ...withoutDescription } = project;
+
+  expect(issuesFor([{ ...withoutDescription, descripton: description }])).toEqual([
+    'projects[0].descripton: unknown field (expected one of slug, title, year, updated, tags, description, href, newTab, writeUp, screenshots, links)',
+    'projects[0].description: expected text, got nothing',
+  ]);
+});
+
+test('rejects malformed hrefs, string years and unknown tags', () => {
+  expect(issuesFor([{
+    ...project,
+    year: '2026',
+    tags: ['game', 'gmae'],
+    href: 'lot-shot.fly.dev',
+    links: [{ label: 'Brief', href: '//lot-shot.fly.dev/llms.txt' }],
+  }])).toEqual([
+    'projects[0].tags[1]: unknown tag "gmae" (known tags: agents, archive, art, data, game, map, memes, multiplayer, NYC, tool, web)',
+    'projects[0].year: expected a four-digit year number, got "2026"',
+    'projects[0].href: expected an http(s) URL or a path starting with "/", got "lot-shot.fly.dev"',
+    'projects[0].links[0].href: expected an http(s) URL or a path starting with "/", got "//lot-shot.fly.dev/llms.txt"',
+  ]);
+});
+
+test('rejects duplicate titles and slugs', () => {
+  expect(issuesFor([project, { ...project }])).toEqual([
+    'projects: duplicate title "Lot Shot"',
+    'projects: duplicate slug "lot-shot"',
+  ]);
+});
+
+test('names the file and every problem in the error message', () => {
+  expect(() => validateNow([{ ...nowJson[0], updated: '' }])).toThrow(
+    'src/portfolio/now.json is invalid:\n  - now[0].updated: expected text, got ""'
+  );
+});
+
+test('checks Now block types, dates and snapshot order', () => {
+  const snapshot = nowJson[0];
+  const entry = [
+    { type: 'link', text: 'Teleskope', href: 'teleskope.ai' },
+    { type: 'bold', text: 'Artificial Taste' },
+  ];
+
+  expect(() => validateNow([
+    { ...snapshot, updated: '2026-02-30', entries: [entry] },
+    { ...snapshot, updated: '2026-07-13' },
+  ])).toThrow(new ContentError('src/portfolio/now.json', [
+    'now[0].updated: "2026-02-30" is not a calendar date',
+    'now[0].entries[0][0].href: expected an http(s) URL or a path starting with "/", got "teleskope.ai"',
+    'now[0].entries[0][1].type: expected "text", "emphasis" or "link", got "bold"',
+    'now[1].updated: snapshots must be listed newest first (2026-07-13 comes after 2026-02-30)',
+  ]));
+});
+
+test('checks Endless Door milestones are whole, ordered doors', () => {
+  expect(() => validateDoorMilestones([
+    { door: 100, text: 'A key.', drawing: '<path d="M0 0"/>' },
+    { door: 10, text: 'Still doors.' },
+    { door: 10.5, text: '' },
+  ])).toThrow(new ContentError('src/portfolio/doorMilestones.json', [
+    'milestones[0].drawing: expected SVG path data, got "<path d=\\"M0 0\\"/>"',
+    'milestones[2].door: expected a whole number from 1 up, got 10.5',
+    'milestones[2].text: expected text, got ""',
+    'milestones[1].door: milestones must be listed in door order (10 comes after 100)',
+  ]));
+});
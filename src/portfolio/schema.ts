@@ -0,0 +1,437 @@
+// Types and runtime checks for the hand-edited JSON under src/portfolio/.
+// The pages and scripts/prerender.js both load content through these
+// validators, so a typo fails the build instead of rendering a blank field.
+
+export const PROJECT_TAGS = [
+  'agents',
+  'archive',
+  'art',
+  'data',
+  'game',
+  'map',
+  'memes',
+  'multiplayer',
+  'NYC',
+  'tool',
+  'web',
+] as const;
+
+export type ProjectTag = typeof PROJECT_TAGS[number];
+
+export type ProjectLink = {
+  label: string;
+  // Absolute http(s) URL, or a site path starting with `/`.
+  href: string;
+};
+
+export type ProjectScreenshot = {
+  src: string;
+  alt: string;
+};
+
+export type Project = {
+  // URL segment for /work/<slug>/; lowercase words joined by hyphens.
+  slug: string;
+  title: string;
+  year: number;
+  // ISO date (YYYY-MM-DD) this entry last changed; the sitemap's lastmod.
+  updated: string;
+  tags: ProjectTag[];
+  // One sentence for the homepage row and link previews.
+  description: string;
+  href: string;
+  // Open `href` in a new tab even though it is on this site (external links
+  // always do), for standalone pages like the DONGs gallery.
+  newTab?: boolean;
+  // Paragraphs for the project page, once they're written; until then it
+  // shows the description.
+  writeUp?: string[];
+  screenshots?: ProjectScreenshot[];
+  links?: ProjectLink[];
+};
+
+// A standalone page listed under Artifacts on the homepage.
+export type Artifact = {
+  title: string;
+  // A site path; app routes navigate in place, the rest are separate builds.
+  href: string;
+  updated: string;
+};
+
+export type NowBlock =
+  | { type: 'text'; text: string }
+  | { type: 'emphasis'; text: string }
+  | { type: 'link'; text: string; href: string; emphasis?: boolean };
+
+// One paragraph of the Now page, read left to right.
+export type NowEntry = NowBlock[];
+
+export type NowSnapshot = {
+  // ISO date (YYYY-MM-DD); also the /now/<date>/ permalink.
+  updated: string;
+  // Plain-text version for meta descriptions and feeds.
+  summary: string;
+  // Employer named in the page's structured data.
+  worksFor?: string;
+  entries: NowEntry[];
+};
+
+// Something waiting behind one door of the Endless Door: a line of text,
+// optionally linked, with an optional small drawing.
+export type DoorMilestone = {
+  door: number;
+  text: string;
+  href?: string;
+  // SVG path data on a 120×120 board.
+  drawing?: string;
+};
+
+export class ContentError extends Error {
+  readonly issues: string[];
+
+  constructor(source: string, issues: string[]) {
+    super(`${source} is invalid:\n${issues.map((issue) => `  - ${issue}`).join('\n')}`);
+    this.name = 'ContentError';
+    this.issues = issues;
+  }
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isCalendarDate = (value: string) => {
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+};
+
+const PATH_DATA_PATTERN = /^[MLHVCSQTAZmlhvcsqtaz0-9.,\s-]+$/;
+
+const show = (value: unknown) => (value === undefined ? 'nothing' : JSON.stringify(value));
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isHref = (value: string) => {
+  if (value.startsWith('/')) {
+    return !value.startsWith('//');
+  }
+
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+};
+
+// Collects every problem in one pass so a bad edit reports all of its typos at once.
+class Reader {
+  readonly issues: string[] = [];
+
+  record(value: unknown, path: string, keys: string[]): UnknownRecord | null {
+    if (!isRecord(value)) {
+      this.issues.push(`${path}: expected an object, got ${show(value)}`);
+      return null;
+    }
+
+    Object.keys(value)
+      .filter((key) => !keys.includes(key))
+      .forEach((key) => this.issues.push(`${path}.${key}: unknown field (expected one of ${keys.join(', ')})`));
+
+    return value;
+  }
+
+  list(value: unknown, path: string, { optional = false } = {}): unknown[] {
+    if (value === undefined && optional) {
+      return [];
+    }
+
+    if (!Array.isArray(value) || (!optional && value.length === 0)) {
+      this.issues.push(`${path}: expected a non-empty list, got ${show(value)}`);
+      return [];
+    }
+
+    return value;
+  }
+
+  text(value: unknown, path: string): string {
+    if (typeof value !== 'string' || value.trim() === '') {
+      this.issues.push(`${path}: expected text, got ${show(value)}`);
+      return '';
+    }
+
+    return value;
+  }
+
+  href(value: unknown, path: string): string {
+    const href = this.text(value, path);
+    if (href && !isHref(href)) {
+      this.issues.push(`${path}: expected an http(s) URL or a path starting with "/", got ${show(href)}`);
+    }
+
+    return href;
+  }
+
+  pattern(value: unknown, path: string, pattern: RegExp, description: string): string {
+    const text = this.text(value, path);
+    if (text && !pattern.test(text)) {
+      this.issues.push(`${path}: expected ${description}, got ${show(text)}`);
+    }
+
+    return text;
+  }
+
+  date(value: unknown, path: string): string {
+    const date = this.pattern(value, path, ISO_DATE_PATTERN, 'an ISO date (YYYY-MM-DD)');
+    if (ISO_DATE_PATTERN.test(date) && !isCalendarDate(date)) {
+      this.issues.push(`${path}: ${show(date)} is not a calendar date`);
+    }
+
+    return date;
+  }
+
+  year(value: unknown, path: string): number {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 2000 || value > 2100) {
+      this.issues.push(`${path}: expected a four-digit year number, got ${show(value)}`);
+      return 0;
+    }
+
+    return value;
+  }
+
+  wholeNumber(value: unknown, path: string): number {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+      this.issues.push(`${path}: expected a whole number from 1 up, got ${show(value)}`);
+      return 0;
+    }
+
+    return value;
+  }
+
+  flag(value: unknown, path: string): boolean | undefined {
+    if (value !== undefined && typeof value !== 'boolean') {
+      this.issues.push(`${path}: expected true or false, got ${show(value)}`);
+    }
+
+    return value === true ? true : undefined;
+  }
+
+  unique(values: string[], path: string, field: string) {
+    values
+      .filter((value, index) => value && values.indexOf(value) !== index)
+      .forEach((value) => this.issues.push(`${path}: duplicate ${field} ${show(value)}`));
+  }
+
+  done<T>(source: string, value: T): T {
+    if (this.issues.length > 0) {
+      throw new ContentError(source, this.issues);
+    }
+
+    return value;
+  }
+}
+
+const PROJECT_KEYS = ['slug', 'title', 'year', 'updated', 'tags', 'description', 'href', 'newTab', 'writeUp', 'screenshots', 'links'];
+
+function readProject(reader: Reader, value: unknown, path: string): Project | null {
+  const record = reader.record(value, path, PROJECT_KEYS);
+  if (!record) {
+    return null;
+  }
+
+  const tags = reader.list(record.tags, `${path}.tags`).map((tag, index) => {
+    const tagPath = `${path}.tags[${index}]`;
+    if (!PROJECT_TAGS.includes(tag as ProjectTag)) {
+      reader.issues.push(`${tagPath}: unknown tag ${show(tag)} (known tags: ${PROJECT_TAGS.join(', ')})`);
+    }
+
+    return tag as ProjectTag;
+  });
+  reader.unique(tags, `${path}.tags`, 'tag');
+
+  const project: Project = {
+    slug: reader.pattern(record.slug, `${path}.slug`, SLUG_PATTERN, 'lowercase words joined by hyphens'),
+    title: reader.text(record.title, `${path}.title`),
+    year: reader.year(record.year, `${path}.year`),
+    updated: reader.date(record.updated, `${path}.updated`),
+    tags,
+    description: reader.text(record.description, `${path}.description`),
+    href: reader.href(record.href, `${path}.href`),
+  };
+
+  const newTab = reader.flag(record.newTab, `${path}.newTab`);
+  if (newTab) {
+    project.newTab = newTab;
+  }
+
+  if (record.writeUp !== undefined) {
+    project.writeUp = reader.list(record.writeUp, `${path}.writeUp`)
+      .map((paragraph, index) => reader.text(paragraph, `${path}.writeUp[${index}]`));
+  }
+
+  if (record.screenshots !== undefined) {
+    project.screenshots = reader.list(record.screenshots, `${path}.screenshots`, { optional: true })
+      .map((screenshot, index) => {
+        const screenshotPath = `${path}.screenshots[${index}]`;
+        const fields = reader.record(screenshot, screenshotPath, ['src', 'alt']) ?? {};
+        return {
+          src: reader.href(fields.src, `${screenshotPath}.src`),
+          alt: reader.text(fields.alt, `${screenshotPath}.alt`),
+        };
+      });
+  }
+
+  if (record.links !== undefined) {
+    project.links = reader.list(record.links, `${path}.links`, { optional: true })
+      .map((link, index) => {
+        const linkPath = `${path}.links[${index}]`;
+        const fields = reader.record(link, linkPath, ['label', 'href']) ?? {};
+        return {
+          label: reader.text(fields.label, `${linkPath}.label`),
+          href: reader.href(fields.href, `${linkPath}.href`),
+        };
+      });
+  }
+
+  return project;
+}
+
+export function validateProjects(value: unknown, source = 'src/portfolio/projects.json'): Project[] {
+  const reader = new Reader();
+  const projects = reader.list(value, 'projects')
+    .map((project, index) => readProject(reader, project, `projects[${index}]`))
+    .filter((project): project is Project => project !== null);
+
+  reader.unique(projects.map((project) => project.title), 'projects', 'title');
+  reader.unique(projects.map((project) => project.slug), 'projects', 'slug');
+
+  return reader.done(source, projects);
+}
+
+export function validateArtifacts(value: unknown, source = 'src/portfolio/artifacts.json'): Artifact[] {
+  const reader = new Reader();
+  const artifacts = reader.list(value, 'artifacts').map((artifact, index) => {
+    const path = `artifacts[${index}]`;
+    const record = reader.record(artifact, path, ['title', 'href', 'updated']) ?? {};
+    const href = reader.href(record.href, `${path}.href`);
+    if (href && !href.startsWith('/')) {
+      reader.issues.push(`${path}.href: expected a path on this site, got ${show(href)}`);
+    }
+
+    return {
+      title: reader.text(record.title, `${path}.title`),
+      href,
+      updated: reader.date(record.updated, `${path}.updated`),
+    };
+  });
+
+  reader.unique(artifacts.map((artifact) => artifact.title), 'artifacts', 'title');
+  reader.unique(artifacts.map((artifact) => artifact.href), 'artifacts', 'href');
+
+  return reader.done(source, artifacts);
+}
+
+function readNowBlock(reader: Reader, value: unknown, path: string): NowBlock {
+  const type = isRecord(value) ? value.type : undefined;
+
+  if (type === 'link') {
+    const record = reader.record(value, path, ['type', 'text', 'href', 'emphasis']) ?? {};
+    const block: NowBlock = {
+      type,
+      text: reader.text(record.text, `${path}.text`),
+      href: reader.href(record.href, `${path}.href`),
+    };
+    if (reader.flag(record.emphasis, `${path}.emphasis`)) {
+      block.emphasis = true;
+    }
+
+    return block;
+  }
+
+  if (type === 'text' || type === 'emphasis') {
+    const record = reader.record(value, path, ['type', 'text']) ?? {};
+    // Text blocks carry their own spacing, so only emphasis must be non-blank.
+    const text = typeof record.text === 'string' && type === 'text'
+      ? record.text
+      : reader.text(record.text, `${path}.text`);
+    return { type, text };
+  }
+
+  reader.issues.push(`${path}.type: expected "text", "emphasis" or "link", got ${show(type)}`);
+  return { type: 'text', text: '' };
+}
+
+function readNowSnapshot(reader: Reader, value: unknown, path: string): NowSnapshot | null {
+  const record = reader.record(value, path, ['updated', 'summary', 'worksFor', 'entries']);
+  if (!record) {
+    return null;
+  }
+
+  const snapshot: NowSnapshot = {
+    updated: reader.date(record.updated, `${path}.updated`),
+    summary: reader.text(record.summary, `${path}.summary`),
+    entries: reader.list(record.entries, `${path}.entries`).map((entry, entryIndex) => (
+      reader.list(entry, `${path}.entries[${entryIndex}]`).map((block, blockIndex) => (
+        readNowBlock(reader, block, `${path}.entries[${entryIndex}][${blockIndex}]`)
+      ))
+    )),
+  };
+
+  if (record.worksFor !== undefined) {
+    snapshot.worksFor = reader.text(record.worksFor, `${path}.worksFor`);
+  }
+
+  return snapshot;
+}
+
+export function validateNow(value: unknown, source = 'src/portfolio/now.json'): NowSnapshot[] {
+  const reader = new Reader();
+  const snapshots = reader.list(value, 'now')
+    .map((snapshot, index) => readNowSnapshot(reader, snapshot, `now[${index}]`))
+    .filter((snapshot): snapshot is NowSnapshot => snapshot !== null);
+
+  const dates = snapshots.map((snapshot) => snapshot.updated);
+  reader.unique(dates, 'now', 'updated date');
+  dates.forEach((date, index) => {
+    if (index > 0 && date > dates[index - 1]) {
+      reader.issues.push(`now[${index}].updated: snapshots must be listed newest first (${date} comes after ${dates[index - 1]})`);
+    }
+  });
+
+  return reader.done(source, snapshots);
+}
+
+export function validateDoorMilestones(value: unknown, source = 'src/portfolio/doorMilestones.json'): DoorMilestone[] {
+  const reader = new Reader();
+  const milestones = reader.list(value, 'milestones').map((milestone, index) => {
+    const path = `milestones[${index}]`;
+    const record = reader.record(milestone, path, ['door', 'text', 'href', 'drawing']) ?? {};
+    const result: DoorMilestone = {
+      door: reader.wholeNumber(record.door, `${path}.door`),
+      text: reader.text(record.text, `${path}.text`),
+    };
+
+    if (record.href !== undefined) {
+      result.href = reader.href(record.href, `${path}.href`);
+    }
+
+    if (record.drawing !== undefined) {
+      result.drawing = reader.pattern(record.drawing, `${path}.drawing`, PATH_DATA_PATTERN, 'SVG path data');
+    }
+
+    return result;
+  });
+
+  const doors = milestones.map((milestone) => milestone.door);
+  reader.unique(doors.map(String), 'milestones', 'door');
+  doors.forEach((door, index) => {
+    if (index > 0 && door > 0 && door < doors[index - 1]) {
+      reader.issues.push(`milestones[${index}].door: milestones must be listed in door order (${door} comes after ${doors[index - 1]})`);
+    }
+  });
+
+  return reader.done(source, milestones);
+}
@@ -0,0 +1,67 @@
+import React from 'react';
+import { act, within } from '@testing-library/react';
+import { hydrateRoot, Root } from 'react-dom/client';
+import App from './App';
+import { prerenderPages, prerenderPaths, renderRoute } from './prerender';
+
+test('prerenders every route, its aliases and the not-found page', () => {
+  expect(prerenderPaths()).toEqual([
+    '/',
+    '/now/',
+    '/now/archive/',
+    '/now/2026-07-13/',
+    '/work/reddit-atlas/',
+    '/work/claude-explores-earth/',
+    '/work/the-artisanal-tax/',
+    '/work/lot-shot/',
+    '/work/dongs-gallery/',
+    '/work/fourcorners/',
+    '/work/crosswars/',
+    '/door/',
+    '/objects/',
+    '/gate-balls/',
+    '/404/',
+  ]);
+});
+
+test.each(prerenderPages())('hydrates the static markup for $pathname without mismatches', async ({ pathname, html }) => {
+  window.history.pushState({}, '', pathname);
+  const container = document.createElement('div');
+  container.innerHTML = html;
+  document.body.appendChild(container);
+  const staticMarkup = container.innerHTML;
+
+  const errors: unknown[] = [];
+  const consoleError = jest.spyOn(console, 'error').mockImplementation((...args) => {
+    errors.push(args);
+  });
+
+  let root: Root | undefined;
+  await act(async () => {
+    root = hydrateRoot(container, <App />, {
+      onRecoverableError: (error) => errors.push(error),
+    });
+  });
+
+  expect(errors).toEqual([]);
+  expect(container.innerHTML).toBe(staticMarkup);
+
+  act(() => root?.unmount());
+  container.remove();
+  consoleError.mockRestore();
+});
+
+test('renders the tag filter from the query string', () => {
+  const container = document.createElement('div');
+  container.innerHTML = renderRoute('/', '?tag=map');
+  document.body.appendChild(container);
+
+  const page = within(container);
+  expect(page.getAllByRole('link', { name: 'Notes' })).toHaveLength(2);
+  expect(page.getByText('Reddit Atlas')).toBeInTheDocument();
+  expect(page.getByText('Claude Explores Earth')).toBeInTheDocument();
+  const tags = page.getByRole('group', { name: 'Filter projects by tag' });
+  expect(within(tags).getByRole('link', { current: true })).toHaveTextContent('map');
+
+  container.remove();
+});
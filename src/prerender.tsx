@@ -0,0 +1,33 @@
+import React from 'react';
+import { renderToString } from 'react-dom/server';
+import App from './App';
+import type { RouteHead } from './head';
+import { matchRoute, notFoundRoute, RouteDefinition, routePaths } from './routes';
+
+export type PrerenderedPage = {
+  pathname: string;
+  route: RouteDefinition;
+  head: RouteHead;
+  html: string;
+};
+
+// Every path that gets its own static file. The not-found page is written to
+// build/404.html, which GitHub Pages serves for anything it can't find.
+export const prerenderPaths = () => [...routePaths(), notFoundRoute.path];
+
+// Pages render from the location alone, so a query such as `/?tag=map` comes
+// out the same here as in the browser. Static files only exist for the bare
+// paths; index.tsx renders other queries fresh over the bare page.
+export const renderRoute = (pathname: string, search = '') =>
+  renderToString(<App location={{ pathname, search }} />);
+
+export const prerenderPages = (): PrerenderedPage[] => prerenderPaths().map((pathname) => {
+  const { route, params } = matchRoute({ pathname, search: '' });
+
+  return {
+    pathname,
+    route,
+    head: route.head(params),
+    html: renderRoute(pathname),
+  };
+});
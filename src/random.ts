@@ -0,0 +1,17 @@
+// Seeded randomness, for things that must come out the same from the same
+// number: the details of each door, or a gate-balls run to be replayed.
+
+// A source of numbers in [0, 1), such as Math.random.
+export type Random = () => number;
+
+// mulberry32: a small, fast generator whose whole state is one 32-bit seed.
+export function seededRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,186 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+
+export type RouterLocation = {
+  pathname: string;
+  search: string;
+};
+
+type NavigateOptions = {
+  replace?: boolean;
+  // Page changes start at the top; in-page state changes such as filters don't.
+  scroll?: boolean;
+};
+
+type RouterContextValue = {
+  location: RouterLocation;
+  navigate: (to: string, options?: NavigateOptions) => void;
+  isAppPath: (pathname: string) => boolean;
+};
+
+type RouterProps = {
+  children: React.ReactNode;
+  // Pins the location for static rendering, where there is no window to read.
+  location?: RouterLocation;
+  isAppPath: (pathname: string) => boolean;
+};
+
+const RouterContext = createContext<RouterContextValue | null>(null);
+
+const readWindowLocation = (): RouterLocation => ({
+  pathname: window.location.pathname,
+  search: window.location.search,
+});
+
+export function Router({ children, location: pinnedLocation, isAppPath }: RouterProps) {
+  const [location, setLocation] = useState<RouterLocation>(
+    () => pinnedLocation ?? readWindowLocation()
+  );
+
+  useEffect(() => {
+    const handlePopState = () => setLocation(readWindowLocation());
+
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const navigate = useCallback((
+    to: string,
+    { replace = false, scroll = !replace }: NavigateOptions = {}
+  ) => {
+    // Safari throws a SecurityError when a page changes its history too often.
+    // Missing one address update is better than breaking whatever asked for it.
+    try {
+      if (replace) {
+        window.history.replaceState({}, '', to);
+      } else {
+        window.history.pushState({}, '', to);
+      }
+    } catch {
+      return;
+    }
+
+    setLocation(readWindowLocation());
+
+    if (scroll && !window.location.hash) {
+      window.scrollTo(0, 0);
+    }
+  }, []);
+
+  const value = useMemo(
+    () => ({ location, navigate, isAppPath }),
+    [isAppPath, location, navigate]
+  );
+
+  return <RouterContext.Provider value={value}>{children}</RouterContext.Provider>;
+}
+
+export function useRouter() {
+  const router = useContext(RouterContext);
+  if (!router) {
+    throw new Error('useRouter must be used inside <Router>.');
+  }
+
+  return router;
+}
+
+// The query string for `params`, `?`-prefixed, or empty when there's none.
+// URLSearchParams writes flags such as `?door` as `door=`; they're kept bare.
+export function searchFromParams(params: URLSearchParams) {
+  const query = params.toString().replace(/=(?=&|$)/g, '');
+  return query ? `?${query}` : '';
+}
+
+type SearchUpdate = (search: string) => string;
+
+// How long the address bar waits for in-page state to stop changing.
+const SEARCH_SYNC_DELAY_MS = 300;
+
+// Keeps the query string in step with in-page state that can change many
+// times a second, such as a held key or a dragged slider. Updates are applied
+// in order to the query they'll land on, but the address only follows once
+// they pause, unless asked to follow at once. Anything still waiting when the
+// page unmounts is dropped, since the address by then belongs to another page.
+export function useReplaceSearch() {
+  const { navigate } = useRouter();
+  const pendingRef = useRef<string | null>(null);
+  const timerRef = useRef<number | null>(null);
+
+  const flush = useCallback(() => {
+    if (timerRef.current !== null) {
+      window.clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    if (pendingRef.current !== null) {
+      const { pathname, hash } = window.location;
+      navigate(`${pathname}${pendingRef.current}${hash}`, { replace: true, scroll: false });
+      pendingRef.current = null;
+    }
+  }, [navigate]);
+
+  useEffect(() => () => {
+    if (timerRef.current !== null) {
+      window.clearTimeout(timerRef.current);
+    }
+  }, []);
+
+  return useCallback((update: SearchUpdate, { immediate = false } = {}) => {
+    pendingRef.current = update(pendingRef.current ?? window.location.search);
+    if (immediate) {
+      flush();
+      return;
+    }
+
+    if (timerRef.current !== null) {
+      window.clearTimeout(timerRef.current);
+    }
+    timerRef.current = window.setTimeout(flush, SEARCH_SYNC_DELAY_MS);
+  }, [flush]);
+}
+
+type LinkProps = React.AnchorHTMLAttributes<HTMLAnchorElement> & NavigateOptions & {
+  href: string;
+};
+
+// Same-origin links to pages in the route table navigate in place; everything
+// else (the standalone artifacts, new tabs, modified clicks) is left to the browser.
+export function Link({ children, href, onClick, replace, scroll, ...anchorProps }: LinkProps) {
+  const { navigate, isAppPath } = useRouter();
+
+  const handleClick = (event: React.MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(event);
+
+    if (
+      event.defaultPrevented
+      || event.button !== 0
+      || event.metaKey
+      || event.altKey
+      || event.ctrlKey
+      || event.shiftKey
+      || anchorProps.target
+    ) {
+      return;
+    }
+
+    const url = new URL(href, window.location.href);
+    if (url.origin !== window.location.origin || !isAppPath(url.pathname)) {
+      return;
+    }
+
+    event.preventDefault();
+    navigate(`${url.pathname}${url.search}${url.hash}`, { replace, scroll });
+  };
+
+  return (
+    <a href={href} onClick={handleClick} {...anchorProps}>
+      {children}
+    </a>
+  );
+}
@@ -0,0 +1,291 @@
+import type { ComponentType } from 'react';
+import DoorPage from './DoorPage';
+import GateBallsPage from './GateBallsPage';
+import type { RouteHead } from './head';
+import {
+  artifacts,
+  currentNow,
+  findArtifact,
+  findNowSnapshot,
+  findProject,
+  formatNowDate,
+  nowSnapshotPath,
+  nowSnapshots,
+  projects,
+} from './portfolio/content';
+import NotFoundPage from './portfolio/NotFoundPage';
+import NowArchivePage from './portfolio/NowArchivePage';
+import NowPage from './portfolio/NowPage';
+import PortfolioPrototype from './portfolio/PortfolioPrototype';
+import ProjectPage from './portfolio/ProjectPage';
+import type { RouterLocation } from './router';
+import {
+  artifactStructuredData,
+  homeStructuredData,
+  nowStructuredData,
+  projectStructuredData,
+} from './structuredData';
+
+export type RouteParams = Record<string, string>;
+
+export type RouteComponentProps = {
+  params: RouteParams;
+};
+
+export type RouteId = 'home' | 'now' | 'now-archive' | 'now-snapshot' | 'work' | 'door' | 'gate-balls' | 'not-found';
+
+export type RouteDefinition = {
+  id: RouteId;
+  // Trailing-slash path; `:name` segments are captured into params.
+  path: string;
+  // Older paths that render the same page.
+  aliases?: string[];
+  // Query flags on any path that select this page, e.g. `/?door`.
+  queryAliases?: string[];
+  // Every param set a pattern path exists for. Other values fall through to
+  // the not-found page, and each listed set is prerendered.
+  staticParams?: () => RouteParams[];
+  head: (params: RouteParams) => RouteHead;
+  // ISO date the page's content last changed, for the sitemap.
+  lastModified?: (params: RouteParams) => string | undefined;
+  // Static-page details that live outside <head>.
+  noscript?: string;
+  background?: string;
+  component: ComponentType<RouteComponentProps>;
+};
+
+export type RouteMatch = {
+  route: RouteDefinition;
+  params: RouteParams;
+};
+
+const PORTFOLIO_THEME_COLOR = '#f3efe4';
+const DOOR_THEME_COLOR = '#0a0a0a';
+const DOOR_TITLE = 'Endless Door — Ansh Sancheti';
+const DOOR_DESCRIPTION = 'An endless hand-drawn door by Ansh Sancheti. Click or drag to open another door.';
+const GATE_BALLS_THEME_COLOR = '#070b14';
+const GATE_BALLS_TITLE = 'Gate Balls — Ansh Sancheti';
+const GATE_BALLS_DESCRIPTION = 'Balls bounce inside a spinning ring and split in two when they slip out through its gap. Drag the rim, and tune the gap, gravity and bounce.';
+
+const latestDate = (dates: string[]) => dates.reduce((latest, date) => (date > latest ? date : latest));
+
+export const routes: RouteDefinition[] = [
+  {
+    id: 'home',
+    path: '/',
+    head: () => ({
+      title: 'Ansh Sancheti — Projects',
+      description: 'Projects and experiments by Ansh Sancheti, a software engineer in New York: AI agents, large-scale data maps, games, archives, and tools.',
+      socialDescription: 'AI agents, large-scale data maps, games, archives, and other experiments by Ansh Sancheti.',
+      canonicalPath: '/',
+      themeColor: PORTFOLIO_THEME_COLOR,
+      jsonLd: homeStructuredData(),
+    }),
+    // The homepage lists every project and artifact.
+    lastModified: () => latestDate([...projects, ...artifacts].map(({ updated }) => updated)),
+    component: PortfolioPrototype,
+  },
+  {
+    id: 'now',
+    path: '/now/',
+    head: () => ({
+      title: 'Now — Ansh Sancheti',
+      description: currentNow.summary,
+      canonicalPath: '/now/',
+      ogType: 'profile',
+      themeColor: PORTFOLIO_THEME_COLOR,
+      jsonLd: nowStructuredData(currentNow, { name: 'Now — Ansh Sancheti', path: '/now/' }),
+    }),
+    lastModified: () => currentNow.updated,
+    component: NowPage,
+  },
+  {
+    id: 'now-archive',
+    path: '/now/archive/',
+    head: () => ({
+      title: 'Earlier updates — Now — Ansh Sancheti',
+      description: `Every update to Ansh Sancheti's Now page, back to ${formatNowDate(nowSnapshots[nowSnapshots.length - 1].updated)}.`,
+      canonicalPath: '/now/archive/',
+      themeColor: PORTFOLIO_THEME_COLOR,
+    }),
+    lastModified: () => currentNow.updated,
+    component: NowArchivePage,
+  },
+  {
+    id: 'now-snapshot',
+    path: '/now/:date/',
+    staticParams: () => nowSnapshots.map(({ updated }) => ({ date: updated })),
+    head: ({ date }) => {
+      const snapshot = findNowSnapshot(date);
+      if (!snapshot) {
+        return notFoundRoute.head({});
+      }
+
+      const title = `Now, ${formatNowDate(snapshot.updated)} — Ansh Sancheti`;
+      const path = nowSnapshotPath(snapshot);
+      return {
+        title,
+        description: snapshot.summary,
+        // The newest snapshot is the same page as /now/.
+        canonicalPath: snapshot === currentNow ? '/now/' : path,
+        ogType: 'profile',
+        themeColor: PORTFOLIO_THEME_COLOR,
+        jsonLd: nowStructuredData(snapshot, { name: title, path }),
+      };
+    },
+    lastModified: ({ date }) => date,
+    component: NowPage,
+  },
+  {
+    id: 'work',
+    path: '/work/:slug/',
+    staticParams: () => projects.map(({ slug }) => ({ slug })),
+    head: ({ slug }) => {
+      const project = findProject(slug);
+      if (!project) {
+        return notFoundRoute.head({});
+      }
+
+      return {
+        title: `${project.title} — Ansh Sancheti`,
+        description: project.description,
+        canonicalPath: `/work/${project.slug}/`,
+        ogType: 'article',
+        ogImage: project.screenshots?.[0]?.src,
+        themeColor: PORTFOLIO_THEME_COLOR,
+        jsonLd: projectStructuredData(project),
+      };
+    },
+    lastModified: ({ slug }) => findProject(slug)?.updated,
+    component: ProjectPage,
+  },
+  {
+    id: 'door',
+    path: '/door/',
+    aliases: ['/objects/'],
+    queryAliases: ['door'],
+    head: () => ({
+      title: DOOR_TITLE,
+      description: DOOR_DESCRIPTION,
+      canonicalPath: '/door/',
+      themeColor: DOOR_THEME_COLOR,
+      jsonLd: artifactStructuredData({
+        name: DOOR_TITLE,
+        description: DOOR_DESCRIPTION,
+        dateModified: findArtifact('/door/')?.updated,
+        path: '/door/',
+      }),
+    }),
+    lastModified: () => findArtifact('/door/')?.updated,
+    noscript: 'The Endless Door interaction requires JavaScript.',
+    background: DOOR_THEME_COLOR,
+    component: DoorPage,
+  },
+  {
+    id: 'gate-balls',
+    path: '/gate-balls/',
+    head: () => ({
+      title: GATE_BALLS_TITLE,
+      description: GATE_BALLS_DESCRIPTION,
+      canonicalPath: '/gate-balls/',
+      themeColor: GATE_BALLS_THEME_COLOR,
+      jsonLd: artifactStructuredData({
+        name: GATE_BALLS_TITLE,
+        description: GATE_BALLS_DESCRIPTION,
+        dateModified: findArtifact('/gate-balls/')?.updated,
+        path: '/gate-balls/',
+      }),
+    }),
+    lastModified: () => findArtifact('/gate-balls/')?.updated,
+    noscript: 'The Gate Balls simulation requires JavaScript.',
+    background: GATE_BALLS_THEME_COLOR,
+    component: GateBallsPage,
+  },
+];
+
+export const notFoundRoute: RouteDefinition = {
+  id: 'not-found',
+  path: '/404/',
+  head: () => ({
+    title: 'Not found — Ansh Sancheti',
+    description: 'This page does not exist on anshsancheti.github.io.',
+    themeColor: PORTFOLIO_THEME_COLOR,
+    robots: 'noindex',
+  }),
+  component: NotFoundPage,
+};
+
+const trimSlashes = (pathname: string) => pathname.split('/').filter(Boolean);
+
+export function matchPath(pattern: string, pathname: string): RouteParams | null {
+  const patternSegments = trimSlashes(pattern);
+  const pathSegments = trimSlashes(pathname);
+
+  if (patternSegments.length !== pathSegments.length) {
+    return null;
+  }
+
+  const params: RouteParams = {};
+
+  for (let index = 0; index < patternSegments.length; index += 1) {
+    const patternSegment = patternSegments[index];
+    const pathSegment = pathSegments[index];
+
+    if (patternSegment.startsWith(':')) {
+      try {
+        params[patternSegment.slice(1)] = decodeURIComponent(pathSegment);
+      } catch {
+        // A malformed escape such as `%zz` names nothing; leave it to the
+        // not-found route.
+        return null;
+      }
+    } else if (patternSegment !== pathSegment) {
+      return null;
+    }
+  }
+
+  return params;
+}
+
+export function buildPath(pattern: string, params: RouteParams) {
+  return pattern.replace(/:([^/]+)/g, (_, name: string) => encodeURIComponent(params[name]));
+}
+
+const hasStaticParams = (route: RouteDefinition, params: RouteParams) => !route.staticParams
+  || route.staticParams().some((candidate) => (
+    Object.keys(candidate).every((name) => candidate[name] === params[name])
+  ));
+
+export function matchRoute({ pathname, search }: RouterLocation): RouteMatch {
+  const query = new URLSearchParams(search);
+  const queryRoute = routes.find((route) => route.queryAliases?.some((flag) => query.has(flag)));
+  if (queryRoute) {
+    return { route: queryRoute, params: {} };
+  }
+
+  for (const route of routes) {
+    for (const pattern of [route.path, ...(route.aliases ?? [])]) {
+      const params = matchPath(pattern, pathname);
+      if (params && hasStaticParams(route, params)) {
+        return { route, params };
+      }
+    }
+  }
+
+  return { route: notFoundRoute, params: {} };
+}
+
+// Every concrete path in the route table, aliases included.
+export const routePaths = () => routes.flatMap((route) => {
+  const patterns = [route.path, ...(route.aliases ?? [])];
+  if (!route.staticParams) {
+    return patterns;
+  }
+
+  return route.staticParams().flatMap((params) => (
+    patterns.map((pattern) => buildPath(pattern, params))
+  ));
+});
+
+export const isAppPath = (pathname: string) =>
+  matchRoute({ pathname, search: '' }).route !== notFoundRoute;
@@ -0,0 +1,75 @@
+import { projects } from './portfolio/content';
+import {
+  atomFeed,
+  jsonFeed,
+  llmsTxt,
+  robotsTxt,
+  sitemapEntries,
+  sitemapXml,
+} from './siteFiles';
+
+test('lists each canonical page once, dated from the content', () => {
+  const entries = sitemapEntries();
+  const paths = entries.map((entry) => entry.path);
+
+  expect(paths).toContain('/now/archive/');
+  expect(paths).toContain('/dongs/gallery.html');
+  expect(paths).not.toContain('/objects/');
+  expect(paths).not.toContain('/now/2026-07-13/');
+  expect(paths).not.toContain('/404/');
+  expect(new Set(paths).size).toBe(paths.length);
+
+  projects.forEach((project) => {
+    expect(entries).toContainEqual({ path: `/work/${project.slug}/`, lastModified: project.updated });
+  });
+  expect(entries).toContainEqual({ path: '/now/', lastModified: '2026-07-13' });
+  expect(entries).toContainEqual({ path: '/nyc-tree-map/', lastModified: '2025-12-07' });
+  // Dated from the file itself, not from the project that links it
+  expect(entries).toContainEqual({ path: '/dongs/gallery.html', lastModified: '2026-07-15' });
+});
+
+test('writes the sitemap, robots.txt and llms.txt from the same content', () => {
+  expect(sitemapXml()).toContain(
+    '<loc>https://anshsancheti.github.io/work/lot-shot/</loc>\n    <lastmod>2026-07-13</lastmod>'
+  );
+  expect(robotsTxt()).toContain('Sitemap: https://anshsancheti.github.io/sitemap.xml');
+
+  const llms = llmsTxt();
+  projects.forEach((project) => {
+    expect(llms).toContain(`- [${project.title}](`);
+  });
+  expect(llms).toContain('[Teleskope](https://www.teleskope.ai/)');
+  expect(llms).toContain('[DONGs Gallery project brief](https://anshsancheti.github.io/dongs/llms.txt)');
+});
+
+test('publishes every project and Now update as valid Atom and JSON feeds', () => {
+  const atom = new DOMParser().parseFromString(atomFeed(), 'application/xml');
+  expect(atom.querySelector('parsererror')).toBeNull();
+  expect(atom.documentElement.namespaceURI).toBe('http://www.w3.org/2005/Atom');
+
+  const atomEntries = Array.from(atom.getElementsByTagName('entry'));
+  atomEntries.forEach((entry) => {
+    ['id', 'title', 'updated', 'summary', 'content'].forEach((name) => {
+      expect(entry.getElementsByTagName(name)[0]?.textContent).toBeTruthy();
+    });
+    expect(entry.getElementsByTagName('updated')[0].textContent).toMatch(/^\d{4}-\d{2}-\d{2}T00:00:00Z$/);
+  });
+
+  const feed = JSON.parse(jsonFeed());
+  expect(feed.version).toBe('https://jsonfeed.org/version/1.1');
+  expect(feed.feed_url).toBe('https://anshsancheti.github.io/feed.json');
+  feed.items.forEach((item: Record<string, string>) => {
+    expect(item.id).toBeTruthy();
+    expect(item.content_html).toBeTruthy();
+    expect(Number.isNaN(Date.parse(item.date_modified))).toBe(false);
+  });
+
+  const atomIds = atomEntries.map((entry) => entry.getElementsByTagName('id')[0].textContent);
+  const jsonIds = feed.items.map((item: Record<string, string>) => item.id);
+  expect(jsonIds).toEqual(atomIds);
+  expect(new Set(jsonIds).size).toBe(jsonIds.length);
+  expect(jsonIds).toContain('https://anshsancheti.github.io/now/2026-07-13/');
+  projects.forEach((project) => {
+    expect(jsonIds).toContain(`https://anshsancheti.github.io/work/${project.slug}/`);
+  });
+});
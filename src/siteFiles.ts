@@ -0,0 +1,256 @@
+import { absoluteUrl, SITE_URL } from './head';
+import {
+  artifacts,
+  currentNow,
+  formatNowDate,
+  NowBlock,
+  NowEntry,
+  nowSnapshotPath,
+  nowSnapshots,
+  projectPath,
+  projects,
+} from './portfolio/content';
+import { isAppPath, matchRoute, routePaths } from './routes';
+
+// The machine-readable files at the site root. scripts/prerender.js writes
+// them next to the static pages, so they list exactly what the build renders.
+
+export type SitemapEntry = {
+  path: string;
+  lastModified?: string;
+};
+
+const siteOrigin = new URL(SITE_URL).origin;
+
+// The path of `href` when it points into this site, whether written as a
+// path or as an absolute URL.
+const sitePath = (href: string) => {
+  const url = new URL(href, SITE_URL);
+  return url.origin === siteOrigin ? url.pathname : null;
+};
+
+// Standalone files change on their own schedule rather than when the project
+// that links them does, so each is dated from its own last change. Files not
+// listed here go without a lastmod.
+const STANDALONE_FILE_UPDATES: Record<string, string> = {
+  '/dongs/gallery.html': '2026-07-15',
+  '/dongs/llms.txt': '2026-07-15',
+};
+
+// Route paths that are their own canonical, indexable URL, followed by the
+// standalone files on this site (the DONGs gallery, the map builds) that the
+// content links to.
+export function sitemapEntries(): SitemapEntry[] {
+  const pages = routePaths().flatMap((pathname) => {
+    const { route, params } = matchRoute({ pathname, search: '' });
+    const head = route.head(params);
+    if (head.canonicalPath !== pathname || head.robots?.includes('noindex')) {
+      return [];
+    }
+
+    return [{ path: pathname, lastModified: route.lastModified?.(params) }];
+  });
+
+  const linkedFiles = [
+    ...projects.flatMap((project) => (
+      [project.href, ...(project.links ?? []).map((link) => link.href)]
+        .map((href): { href: string; lastModified?: string } => ({ href }))
+    )),
+    ...artifacts.map(({ href, updated }) => ({ href, lastModified: updated })),
+  ].flatMap(({ href, lastModified }) => {
+    const path = sitePath(href);
+    return path && !isAppPath(path)
+      ? [{ path, lastModified: lastModified ?? STANDALONE_FILE_UPDATES[path] }]
+      : [];
+  });
+
+  return [...pages, ...linkedFiles].filter((entry, index, entries) => (
+    entries.findIndex((other) => other.path === entry.path) === index
+  ));
+}
+
+const escapeXml = (value: string) => value
+  .replaceAll('&', '&amp;')
+  .replaceAll('<', '&lt;')
+  .replaceAll('>', '&gt;')
+  .replaceAll('"', '&quot;');
+
+export function sitemapXml() {
+  const urls = sitemapEntries().map(({ path, lastModified }) => [
+    '  <url>',
+    `    <loc>${escapeXml(absoluteUrl(path))}</loc>`,
+    ...(lastModified ? [`    <lastmod>${lastModified}</lastmod>`] : []),
+    '  </url>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...urls,
+    '</urlset>',
+    '',
+  ].join('\n');
+}
+
+export const robotsTxt = () => [
+  'User-agent: *',
+  'Allow: /',
+  '',
+  `Sitemap: ${absoluteUrl('/sitemap.xml')}`,
+  '',
+].join('\n');
+
+const markdownBlock = (block: NowBlock) => (block.type === 'link'
+  ? `[${block.text}](${absoluteUrl(block.href)})`
+  : block.text);
+
+export function llmsTxt() {
+  const briefs = projects.flatMap((project) => (project.links ?? [])
+    .filter((link) => link.href.endsWith('/llms.txt'))
+    .map((link) => `- [${project.title} project brief](${absoluteUrl(link.href)})`));
+
+  const sections = [
+    '# Ansh Sancheti',
+    '> Personal site and project index for Ansh Sancheti, a software engineer in New York who builds AI experiments, large-scale data maps, games, archives, and small tools for the web.',
+    `Canonical site: ${SITE_URL}`,
+    [
+      '## Now',
+      currentNow.entries.map((entry) => `- ${entry.map(markdownBlock).join('').trim()}`).join('\n'),
+      `Updated ${formatNowDate(currentNow.updated)}. Earlier updates: ${absoluteUrl('/now/archive/')}`,
+    ].join('\n\n'),
+    [
+      '## Selected work',
+      projects.map((project) => (
+        `- [${project.title}](${absoluteUrl(project.href)}): ${project.description} Tags: ${project.tags.join(', ')}. Created ${project.year}. Notes: ${absoluteUrl(projectPath(project))}`
+      )).join('\n'),
+    ].join('\n\n'),
+    ...(briefs.length ? [['## LLM-readable project briefs', briefs.join('\n')].join('\n\n')] : []),
+    [
+      '## In progress',
+      '- Superforecaster: An auditable research harness for AI probabilistic forecasting. Research prototype, 2026.',
+    ].join('\n\n'),
+    [
+      '## Artifacts',
+      artifacts.map((artifact) => `- [${artifact.title}](${absoluteUrl(artifact.href)})`).join('\n'),
+    ].join('\n\n'),
+    [
+      '## About and contact',
+      'Mostly the consequences of one thing leading to another. Based in NYC. Email: ansh.sancheti@gmail.com. GitHub: https://github.com/AnshSancheti. LinkedIn: https://www.linkedin.com/in/ansh-sancheti-10b043aa.',
+    ].join('\n\n'),
+  ];
+
+  return `${sections.join('\n\n')}\n`;
+}
+
+const FEED_TITLE = 'Ansh Sancheti — new work and Now updates';
+const FEED_DESCRIPTION = 'New projects and Now page updates from Ansh Sancheti.';
+const AUTHOR = { name: 'Ansh Sancheti', url: SITE_URL };
+
+export type FeedEntry = {
+  id: string;
+  title: string;
+  url: string;
+  summary: string;
+  html: string;
+  updated: string;
+};
+
+const blockHtml = (block: NowBlock) => {
+  switch (block.type) {
+    case 'emphasis':
+      return `<strong>${escapeXml(block.text)}</strong>`;
+    case 'link':
+      return `<a href="${escapeXml(absoluteUrl(block.href))}">${escapeXml(block.text)}</a>`;
+    default:
+      return escapeXml(block.text);
+  }
+};
+
+const entryHtml = (entry: NowEntry) => `<p>${entry.map(blockHtml).join('')}</p>`;
+
+// Project pages and dated Now snapshots, newest first. Projects that changed
+// on the same day keep the homepage's order, newest year first.
+export function feedEntries(): FeedEntry[] {
+  const projectEntries = projects.map((project) => ({
+    year: project.year,
+    entry: {
+      id: absoluteUrl(projectPath(project)),
+      title: project.title,
+      url: absoluteUrl(projectPath(project)),
+      summary: project.description,
+      html: [
+        ...(project.writeUp ?? []).map((paragraph) => `<p>${escapeXml(paragraph)}</p>`),
+        `<p><a href="${escapeXml(absoluteUrl(project.href))}">Open ${escapeXml(project.title)}</a></p>`,
+      ].join(''),
+      updated: project.updated,
+    },
+  }));
+
+  const nowEntries = nowSnapshots.map((snapshot) => ({
+    year: Number(snapshot.updated.slice(0, 4)),
+    entry: {
+      id: absoluteUrl(nowSnapshotPath(snapshot)),
+      title: `Now, ${formatNowDate(snapshot.updated)}`,
+      url: absoluteUrl(nowSnapshotPath(snapshot)),
+      summary: snapshot.summary,
+      html: snapshot.entries.map(entryHtml).join(''),
+      updated: snapshot.updated,
+    },
+  }));
+
+  return [...projectEntries, ...nowEntries]
+    .sort((a, b) => b.entry.updated.localeCompare(a.entry.updated) || b.year - a.year)
+    .map(({ entry }) => entry);
+}
+
+const timestamp = (date: string) => `${date}T00:00:00Z`;
+
+export function atomFeed() {
+  const entries = feedEntries();
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${escapeXml(SITE_URL)}</id>`,
+    `  <title>${escapeXml(FEED_TITLE)}</title>`,
+    `  <subtitle>${escapeXml(FEED_DESCRIPTION)}</subtitle>`,
+    `  <updated>${timestamp(entries[0].updated)}</updated>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(absoluteUrl('/feed.xml'))}"/>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(SITE_URL)}"/>`,
+    `  <author><name>${escapeXml(AUTHOR.name)}</name><uri>${escapeXml(AUTHOR.url)}</uri></author>`,
+    ...entries.map((entry) => [
+      '  <entry>',
+      `    <id>${escapeXml(entry.id)}</id>`,
+      `    <title>${escapeXml(entry.title)}</title>`,
+      `    <link rel="alternate" type="text/html" href="${escapeXml(entry.url)}"/>`,
+      `    <updated>${timestamp(entry.updated)}</updated>`,
+      `    <summary>${escapeXml(entry.summary)}</summary>`,
+      `    <content type="html">${escapeXml(entry.html)}</content>`,
+      '  </entry>',
+    ].join('\n')),
+    '</feed>',
+    '',
+  ].join('\n');
+}
+
+export function jsonFeed() {
+  const feed = {
+    version: 'https://jsonfeed.org/version/1.1',
+    title: FEED_TITLE,
+    description: FEED_DESCRIPTION,
+    home_page_url: SITE_URL,
+    feed_url: absoluteUrl('/feed.json'),
+    language: 'en',
+    authors: [AUTHOR],
+    items: feedEntries().map((entry) => ({
+      id: entry.id,
+      url: entry.url,
+      title: entry.title,
+      summary: entry.summary,
+      content_html: entry.html,
+      date_modified: timestamp(entry.updated),
+    })),
+  };
+
+  return `${JSON.stringify(feed, null, 2)}\n`;
+}
@@ -0,0 +1,119 @@
+import { absoluteUrl, SITE_URL } from './head';
+import {
+  NowSnapshot,
+  nowPlainText,
+  Project,
+  projectPath,
+  projects,
+} from './portfolio/content';
+
+const personReference = { '@id': `${SITE_URL}#ansh` };
+
+type PageSummary = {
+  name: string;
+  description: string;
+  dateModified?: string;
+};
+
+const projectWork = (project: Project) => ({
+  '@type': ['CreativeWork', 'SoftwareApplication'],
+  '@id': `${absoluteUrl(projectPath(project))}#work`,
+  name: project.title,
+  description: project.description,
+  url: absoluteUrl(project.href),
+  mainEntityOfPage: absoluteUrl(projectPath(project)),
+  dateCreated: String(project.year),
+  dateModified: project.updated,
+  keywords: project.tags,
+  creator: personReference,
+});
+
+export const homeStructuredData = () => ({
+  '@context': 'https://schema.org',
+  '@graph': [
+    {
+      '@type': 'WebSite',
+      '@id': `${SITE_URL}#website`,
+      url: SITE_URL,
+      name: 'Ansh Sancheti — Projects',
+      description: 'Projects and experiments by Ansh Sancheti, a software engineer in New York.',
+      author: personReference,
+    },
+    {
+      '@type': 'Person',
+      '@id': `${SITE_URL}#ansh`,
+      name: 'Ansh Sancheti',
+      url: SITE_URL,
+      jobTitle: 'Software engineer',
+      homeLocation: { '@type': 'Place', name: 'New York, NY' },
+      sameAs: [
+        'https://github.com/AnshSancheti',
+        'https://www.linkedin.com/in/ansh-sancheti-10b043aa',
+      ],
+    },
+    {
+      '@type': 'ItemList',
+      '@id': `${SITE_URL}#selected-work`,
+      name: 'Selected work by Ansh Sancheti',
+      numberOfItems: projects.length,
+      itemListElement: projects.map((project, index) => ({
+        '@type': 'ListItem',
+        position: index + 1,
+        item: projectWork(project),
+      })),
+    },
+  ],
+});
+
+type NowPageSummary = Pick<PageSummary, 'name'> & {
+  path: string;
+};
+
+export const nowStructuredData = (snapshot: NowSnapshot, { name, path }: NowPageSummary) => ({
+  '@context': 'https://schema.org',
+  '@type': 'ProfilePage',
+  '@id': `${absoluteUrl(path)}#page`,
+  url: absoluteUrl(path),
+  name,
+  description: nowPlainText(snapshot),
+  dateModified: snapshot.updated,
+  mainEntity: {
+    '@type': 'Person',
+    ...personReference,
+    name: 'Ansh Sancheti',
+    url: SITE_URL,
+    ...(snapshot.worksFor
+      ? { worksFor: { '@type': 'Organization', name: snapshot.worksFor } }
+      : {}),
+  },
+});
+
+type ArtifactPageSummary = PageSummary & {
+  path: string;
+};
+
+export const artifactStructuredData = ({ name, description, dateModified, path }: ArtifactPageSummary) => ({
+  '@context': 'https://schema.org',
+  '@type': 'CreativeWork',
+  '@id': `${absoluteUrl(path)}#page`,
+  url: absoluteUrl(path),
+  name,
+  description,
+  dateModified,
+  creator: {
+    '@type': 'Person',
+    ...personReference,
+    name: 'Ansh Sancheti',
+    url: SITE_URL,
+  },
+});
+
+export const projectStructuredData = (project: Project) => ({
+  '@context': 'https://schema.org',
+  ...projectWork(project),
+  abstract: project.description,
+  ...(project.writeUp ? { text: project.writeUp.join('\n\n') } : {}),
+  ...(project.screenshots?.length
+    ? { image: project.screenshots.map((screenshot) => absoluteUrl(screenshot.src)) }
+    : {}),
+});
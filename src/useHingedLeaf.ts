@@ -0,0 +1,151 @@
+import { MutableRefObject, useCallback, useEffect, useRef, useState } from 'react';
+import {
+  DEFAULT_HINGED_LEAF_CONFIG,
+  HingedLeafConfig,
+  HingedLeafEvent,
+  hingedLeafReducer,
+  HingedLeafState,
+  initialHingedLeafState,
+  isLeafMoving,
+  LeafMode,
+  leafMode,
+  SettledLeaf,
+  slotLeaves,
+} from './hingedLeaf';
+
+type HingedLeafOptions = {
+  initialCount?: number;
+  config?: Partial<Omit<HingedLeafConfig, 'reducedMotion'>>;
+  // Called with every new state. Leaves move every frame, so they're drawn
+  // from here rather than through a React render.
+  onFrame?: (state: HingedLeafState) => void;
+  onSettle?: (leaf: SettledLeaf) => void;
+  // A leaf opened or closed, or a jump; not a restored count.
+  onCountChange?: (count: number) => void;
+  // Every event but the frames and handoffs the hook makes for itself, so
+  // a run of the leaf can be recorded and replayed.
+  onEvent?: (event: HingedLeafEvent) => void;
+};
+
+// What React renders from: it changes when a leaf starts, stops or changes
+// hands, not on every frame.
+export type HingedLeafView = {
+  count: number;
+  mode: LeafMode | 'idle';
+  leaving: number;
+  opening: number;
+  dragging: boolean;
+  slots: number;
+  slotLeaves: Array<number | null>;
+};
+
+// A pause this long, in milliseconds, ends a wheel or trackpad gesture.
+const WHEEL_IDLE_MS = 140;
+
+const prefersReducedMotion = () =>
+  window.matchMedia?.('(prefers-reduced-motion: reduce)').matches ?? false;
+
+const viewOf = (state: HingedLeafState): HingedLeafView => ({
+  count: state.count,
+  mode: leafMode(state),
+  leaving: state.flights.filter((flight) => flight.origin === 'open').length,
+  opening: state.flights.filter((flight) => flight.origin === 'shut').length,
+  dragging: state.pointer !== null,
+  slots: state.slots,
+  slotLeaves: slotLeaves(state),
+});
+
+const sameView = (current: HingedLeafView, next: HingedLeafView) =>
+  current.count === next.count
+  && current.mode === next.mode
+  && current.leaving === next.leaving
+  && current.opening === next.opening
+  && current.dragging === next.dragging
+  && current.slots === next.slots
+  && current.slotLeaves.length === next.slotLeaves.length
+  && current.slotLeaves.every((leaf, slot) => leaf === next.slotLeaves[slot]);
+
+// Runs `hingedLeafReducer` against animation frames: a frame is requested only
+// while something is moving, and a leaf that comes to rest open is handed on
+// a frame later, once the open stack has rendered it. A scroll is let go once
+// the wheel has been still for a moment.
+export function useHingedLeaf(options: HingedLeafOptions = {}) {
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const [initialState] = useState(() => initialHingedLeafState(options.initialCount, {
+    ...DEFAULT_HINGED_LEAF_CONFIG,
+    ...options.config,
+  }));
+  const stateRef: MutableRefObject<HingedLeafState> = useRef(initialState);
+  const [view, setView] = useState(() => viewOf(initialState));
+  const animationFrameRef = useRef<number | null>(null);
+  const handoffFrameRef = useRef<number | null>(null);
+  const wheelTimerRef = useRef<number | null>(null);
+
+  const dispatch = useCallback(function dispatchLeafEvent(event: HingedLeafEvent) {
+    const { config, onCountChange, onEvent, onFrame, onSettle } = optionsRef.current;
+    if (event.type !== 'tick' && event.type !== 'handoff') {
+      onEvent?.(event);
+    }
+
+    const previous = stateRef.current;
+    const state = hingedLeafReducer(previous, event, {
+      ...DEFAULT_HINGED_LEAF_CONFIG,
+      ...config,
+      reducedMotion: prefersReducedMotion(),
+    });
+    stateRef.current = state;
+
+    state.settled.forEach((leaf) => onSettle?.(leaf));
+    if (event.type !== 'restore' && state.count !== previous.count) {
+      onCountChange?.(state.count);
+    }
+    onFrame?.(state);
+
+    const nextView = viewOf(state);
+    setView((current) => (sameView(current, nextView) ? current : nextView));
+
+    if (isLeafMoving(state) && animationFrameRef.current === null) {
+      animationFrameRef.current = window.requestAnimationFrame((now) => {
+        animationFrameRef.current = null;
+        dispatchLeafEvent({ type: 'tick', now });
+      });
+    } else if (!isLeafMoving(state) && animationFrameRef.current !== null) {
+      window.cancelAnimationFrame(animationFrameRef.current);
+      animationFrameRef.current = null;
+    }
+
+    if (state.handoff.length > 0 && handoffFrameRef.current === null) {
+      handoffFrameRef.current = window.requestAnimationFrame(() => {
+        handoffFrameRef.current = null;
+        dispatchLeafEvent({ type: 'handoff' });
+      });
+    }
+
+    if (event.type === 'wheel' && state.pointer?.input === 'wheel') {
+      if (wheelTimerRef.current !== null) {
+        window.clearTimeout(wheelTimerRef.current);
+      }
+      wheelTimerRef.current = window.setTimeout(() => {
+        wheelTimerRef.current = null;
+        dispatchLeafEvent({ type: 'wheelEnd' });
+      }, WHEEL_IDLE_MS);
+    }
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      if (animationFrameRef.current !== null) {
+        window.cancelAnimationFrame(animationFrameRef.current);
+      }
+      if (handoffFrameRef.current !== null) {
+        window.cancelAnimationFrame(handoffFrameRef.current);
+      }
+      if (wheelTimerRef.current !== null) {
+        window.clearTimeout(wheelTimerRef.current);
+      }
+    };
+  }, []);
+
+  return { view, dispatch, stateRef };
+}